@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AchievementId } from '../types/AchievementTypes';
+import { Translate } from '../data/Locales';
+import { getAchievement } from '../data/Achievements';
+
+interface BadgeToastProps {
+  badge: AchievementId;
+  t: Translate;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION_MS = 3000;
+
+// Banner for a badge that was just earned; goes away on its own or when tapped
+const BadgeToast: React.FC<BadgeToastProps> = ({ badge, t, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [badge, onDismiss]);
+
+  const achievement = getAchievement(badge);
+  if (!achievement) return null;
+
+  return (
+    <TouchableOpacity
+      style={styles.toast}
+      onPress={onDismiss}
+      accessibilityRole="alert"
+      accessibilityLiveRegion="assertive"
+    >
+      <Text style={styles.icon}>{achievement.icon}</Text>
+      <View style={styles.textColumn}>
+        <Text style={styles.heading}>{t('badgeEarned')}</Text>
+        <Text style={styles.name}>{t(achievement.name)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    top: 20,
+    left: 20,
+    right: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 15,
+    backgroundColor: 'rgba(30, 60, 114, 0.95)',
+    borderWidth: 2,
+    borderColor: '#FFD54F',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 10,
+  },
+  icon: {
+    fontSize: 32,
+    marginRight: 12,
+  },
+  textColumn: {
+    flex: 1,
+  },
+  heading: {
+    fontSize: 12,
+    color: '#FFD54F',
+    fontWeight: '700',
+  },
+  name: {
+    fontSize: 16,
+    color: 'white',
+    fontWeight: '800',
+  },
+});
+
+export default BadgeToast;
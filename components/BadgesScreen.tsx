@@ -0,0 +1,123 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { AchievementRecord } from '../types/AchievementTypes';
+import { Translate } from '../data/Locales';
+import { ACHIEVEMENTS } from '../data/Achievements';
+import { getDateKey } from '../engine/Daily';
+
+interface BadgesScreenProps {
+  achievements: AchievementRecord;
+  t: Translate;
+  onExit: () => void;
+}
+
+// Every badge, earned ones first in gallery order and the rest greyed out with how to get them
+const BadgesScreen: React.FC<BadgesScreenProps> = ({ achievements, t, onExit }) => {
+  const earnedCount = ACHIEVEMENTS.filter(achievement => achievements.unlocked[achievement.id] !== undefined).length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onExit} accessibilityRole="button" accessibilityLabel={t('homeLabel')}>
+          <Text style={styles.icon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('badges')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+      <Text style={styles.countText}>{t('badgeCount', { count: earnedCount, total: ACHIEVEMENTS.length })}</Text>
+      <ScrollView contentContainerStyle={styles.content}>
+        {ACHIEVEMENTS.map((achievement) => {
+          const unlockedAt = achievements.unlocked[achievement.id];
+          const isEarned = unlockedAt !== undefined;
+          return (
+            <View
+              key={achievement.id}
+              style={[styles.badge, !isEarned && styles.badgeLocked]}
+              accessible
+            >
+              <Text style={styles.badgeIcon}>{achievement.icon}</Text>
+              <View style={styles.badgeText}>
+                <Text style={styles.badgeName}>{t(achievement.name)}</Text>
+                <Text style={styles.badgeDescription}>{t(achievement.description, achievement.params)}</Text>
+                <Text style={styles.badgeStatus}>
+                  {isEarned ? t('badgeEarnedOn', { date: getDateKey(new Date(unlockedAt)) }) : t('badgeLocked')}
+                </Text>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    height: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  icon: {
+    fontSize: 24,
+  },
+  countText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+  content: {
+    paddingBottom: 30,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 10,
+    borderRadius: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderWidth: 2,
+    borderColor: '#FFD54F',
+  },
+  badgeLocked: {
+    borderColor: 'rgba(150, 150, 150, 0.3)',
+    opacity: 0.6,
+  },
+  badgeIcon: {
+    fontSize: 32,
+    marginRight: 12,
+  },
+  badgeText: {
+    flex: 1,
+  },
+  badgeName: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: 'white',
+  },
+  badgeDescription: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginTop: 2,
+  },
+  badgeStatus: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 4,
+  },
+});
+
+export default BadgesScreen;
@@ -0,0 +1,58 @@
+import React from 'react';
+import Svg, { Circle, Polygon, Rect } from 'react-native-svg';
+import { GlyphShape } from '../types/PaletteTypes';
+
+interface ColorGlyphProps {
+  shape: GlyphShape;
+  size: number;
+}
+
+const GLYPH_FILL = 'rgba(255, 255, 255, 0.85)';
+const GLYPH_STROKE = 'rgba(0, 0, 0, 0.6)';
+
+// Shape drawn on a color tile so colors can be told apart without seeing hue.
+// Drawn on a 100x100 view box and scaled to size.
+const ColorGlyph: React.FC<ColorGlyphProps> = ({ shape, size }) => {
+  const shared = { fill: GLYPH_FILL, stroke: GLYPH_STROKE, strokeWidth: 4 };
+
+  const renderShape = () => {
+    switch (shape) {
+      case 'circle':
+        return <Circle cx={50} cy={50} r={32} {...shared} />;
+      case 'triangle':
+        return <Polygon points="50,14 88,82 12,82" {...shared} />;
+      case 'square':
+        return <Rect x={20} y={20} width={60} height={60} {...shared} />;
+      case 'star':
+        return <Polygon points="50,8 61,38 93,38 67,57 77,88 50,69 23,88 33,57 7,38 39,38" {...shared} />;
+      case 'diamond':
+        return <Polygon points="50,10 90,50 50,90 10,50" {...shared} />;
+      case 'hexagon':
+        return <Polygon points="50,10 85,30 85,70 50,90 15,70 15,30" {...shared} />;
+      case 'heart':
+        return <Polygon points="50,86 14,50 14,30 30,16 50,28 70,16 86,30 86,50" {...shared} />;
+      case 'ring':
+        return <Circle cx={50} cy={50} r={30} fill="none" stroke={GLYPH_FILL} strokeWidth={14} />;
+      case 'cross':
+        return <Polygon points="38,12 62,12 62,38 88,38 88,62 62,62 62,88 38,88 38,62 12,62 12,38 38,38" {...shared} />;
+      case 'bars':
+        return (
+          <>
+            <Rect x={16} y={20} width={16} height={60} {...shared} />
+            <Rect x={42} y={20} width={16} height={60} {...shared} />
+            <Rect x={68} y={20} width={16} height={60} {...shared} />
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Svg width={size} height={size} viewBox="0 0 100 100">
+      {renderShape()}
+    </Svg>
+  );
+};
+
+export default ColorGlyph;
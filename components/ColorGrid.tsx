@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { ColorName } from '../types/GameTypes';
+import { Palette } from '../types/PaletteTypes';
+import { COLOR_GLYPHS } from '../data/Palettes';
+import { Translate } from '../data/Locales';
+import ColorGlyph from './ColorGlyph';
+
+const GRID_GAP = 15;
+
+// Square-ish grid for any tile count: 2 -> 2x1, 4 -> 2x2, 6 -> 3x2, 9 -> 3x3
+export const getGridColumns = (tileCount: number) => Math.max(2, Math.ceil(Math.sqrt(tileCount)));
+
+const getTileSize = (tileCount: number, width: number, height: number) => {
+  const columns = getGridColumns(tileCount);
+  const rows = Math.ceil(tileCount / columns);
+  return Math.min(
+    (width - GRID_GAP * (columns - 1)) / columns,
+    (height - GRID_GAP * (rows - 1)) / rows,
+  );
+};
+
+interface ColorGridProps {
+  colors: ColorName[];
+  colorNames: Record<ColorName, string>; // spoken names, for screen readers
+  palette: Palette;
+  showPatterns: boolean;
+  width: number;
+  height: number;
+  disabled: boolean;
+  focusedTile?: number | null;
+  t: Translate;
+  onTap: (tileIndex: number) => void;
+}
+
+// Tappable tiles sized to fit the given area
+const ColorGrid: React.FC<ColorGridProps> = ({
+  colors,
+  colorNames,
+  palette,
+  showPatterns,
+  width,
+  height,
+  disabled,
+  focusedTile = null,
+  t,
+  onTap,
+}) => {
+  const tileSize = getTileSize(colors.length, width, height);
+
+  return (
+    <View style={[styles.grid, { width }]}>
+      {colors.map((colorName, index) => (
+        <TouchableOpacity
+          key={index} // Use index as key to handle duplicate colors in Level 5
+          style={[
+            styles.colorButton,
+            {
+              width: tileSize,
+              height: tileSize,
+              borderRadius: Math.min(20, tileSize / 5),
+              backgroundColor: palette.colors[colorName],
+              borderColor: palette.borderColor,
+            },
+            index === focusedTile && styles.colorButtonFocused,
+          ]}
+          onPress={() => onTap(index)}
+          disabled={disabled}
+          accessibilityRole="button"
+          accessibilityLabel={t('tileLabel', { position: index + 1, color: colorNames[colorName] })}
+          accessibilityState={{ disabled, selected: index === focusedTile }}
+        >
+          {showPatterns && <ColorGlyph shape={COLOR_GLYPHS[colorName]} size={tileSize * 0.5} />}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  colorButton: {
+    marginBottom: GRID_GAP,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 6,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 6,
+    elevation: 8,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  colorButtonFocused: {
+    borderWidth: 4,
+    borderColor: '#FFFFFF',
+  },
+});
+
+export default ColorGrid;
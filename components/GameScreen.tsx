@@ -1,7 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Dimensions, ScrollView } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions, ScrollView, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import * as Speech from 'expo-speech';
+import * as Clipboard from 'expo-clipboard';
+import { LevelSummary, PromptMode, ScoreComponentKind } from '../types/GameTypes';
+import { UiStringKey } from '../types/LocaleTypes';
+import { GAME_LEVELS, getNextLevel } from '../data/GameLevels';
+import { LOCALES, createTranslator } from '../data/Locales';
+import { PALETTES } from '../data/Palettes';
+import { ADAPTIVE_MODE, getAdaptiveLevel } from '../data/AdaptiveMode';
+import { getScoringRules } from '../data/ScoringRules';
+import { analyzePrompts } from '../engine/Analytics';
+import { buildShareText, getCurrentDailyStreak, getDateKey, isDailyTaken } from '../engine/Daily';
+import { STARTING_LIVES, getActiveLevel } from '../engine/GameEngine';
+import { getComboMultiplier } from '../engine/Scoring';
+import { getAccuracy } from '../engine/Progress';
+import useGameLogic from '../hooks/useGameLogic';
+import useKeyboardControls from '../hooks/useKeyboardControls';
+import useProfiles from '../hooks/useProfiles';
+import useSettings from '../hooks/useSettings';
+import BadgeToast from './BadgeToast';
+import BadgesScreen from './BadgesScreen';
+import ColorGrid, { getGridColumns } from './ColorGrid';
+import ProfilesScreen, { ProfileAvatar, getProfileName } from './ProfilesScreen';
+import PromptTimerBar from './PromptTimerBar';
+import SettingsPanel from './SettingsPanel';
+import ReplayScreen from './ReplayScreen';
+import VersusScreen from './VersusScreen';
 
 // Mobile viewport dimensions (iPhone-like)
 const MOBILE_WIDTH = 375;
@@ -15,424 +39,286 @@ const scale = Math.min(scaleX, scaleY);
 
 const width = MOBILE_WIDTH;
 
-const GAME_COLORS = {
-  blue: '#4A90E2',
-  green: '#7ED321',
-  yellow: '#F5A623',
-  red: '#D0021B',
-} as const;
+// Color grid area inside the game area padding, see styles.colorGrid
+const GRID_WIDTH = width - 40 - 60;
+const GRID_HEIGHT = 280;
 
-type ColorName = keyof typeof GAME_COLORS;
+const BACKGROUND_GRADIENT = ['#1e3c72', '#2a5298', '#667eea', '#764ba2'] as const;
+// Shown instead while the pick rule holds on levels cued by the background
+const PICK_RULE_GRADIENT = ['#7a4a00', '#b8860b', '#e0a030', '#c0602a'] as const;
 
-const GameScreen: React.FC = () => {
-  const [gameState, setGameState] = useState({
-    currentLevel: 1,
-    score: 0,
-    lives: 3,
-    timeRemaining: 0,
-    currentColorIndex: 0,
-    colorsToClick: [] as ColorName[],
-    availableColors: [] as ColorName[],
-    gameStatus: 'homepage' as 'homepage' | 'waiting' | 'playing' | 'completed' | 'failed' | 'levelSummary',
-    isGameActive: false,
-    levelStartTime: 0,
-    levelTimeLimit: 0,
-    levelScore: 0,
-    levelSummary: { base: 0, time: 0, total: 0 },
-    unlockedLevels: [1], // Start with only Level 1 unlocked
-    visualColors: [] as ColorName[], // Colors displayed on screen (for Level 5 mechanic)
-    isTransitioning: false, // Prevent double clicks during grid refresh
-    lastArrangement: [] as ColorName[], // Track last arrangement to prevent repeats on L1-2
-  });
+const PROMPT_MODE_LABELS: Record<PromptMode, UiStringKey> = {
+  speech: 'promptSpeech',
+  visual: 'promptVisual',
+  stroop: 'promptStroop',
+};
 
-  const generateColorSequence = (level: number) => {
-    const colorNames = Object.keys(GAME_COLORS) as ColorName[];
-    
-    // Determine number of colors based on level
-    let numColors: number;
-    if (level <= 2) {
-      numColors = 2; // Level 1 & 2: 2 colors (Blue, Green)
-    } else {
-      numColors = 4; // Level 3+: 4 colors (Blue, Green, Yellow, Red)
-    }
-    
-    const availableColors = colorNames.slice(0, numColors);
-    const sequence: ColorName[] = [];
-    
-    // Generate sequence with no more than 4 consecutive same colors
-    for (let i = 0; i < 10; i++) {
-      let newColor: ColorName;
-      let attempts = 0;
-      
-      do {
-        const randomIndex = Math.floor(Math.random() * availableColors.length);
-        newColor = availableColors[randomIndex];
-        attempts++;
-        
-        // If we've tried too many times, just pick any color
-        if (attempts > 10) break;
-      } while (
-        i >= 3 && // Only check after we have at least 4 colors
-        sequence[i-1] === newColor &&
-        sequence[i-2] === newColor &&
-        sequence[i-3] === newColor
-      );
-      
-      sequence.push(newColor);
-    }
-    
-    return { sequence, availableColors };
-  };
+const SCORE_COMPONENT_LABELS: Record<ScoreComponentKind, UiStringKey> = {
+  colors: 'colorsFound',
+  reaction: 'reactionBonus',
+  combo: 'comboBonus',
+  time: 'timeSaved',
+  perfect: 'perfectBonus',
+  mistakes: 'endlessMistakes',
+  commission: 'commissionErrors',
+  omission: 'omissionErrors',
+};
 
-  // Shuffle array function
-  const shuffleArray = (array: ColorName[]) => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
+const GameScreen: React.FC = () => {
+  const {
+    profiles,
+    activeProfile,
+    activeStore,
+    createProfile,
+    switchProfile,
+    deleteProfile,
+    resetProfile,
+  } = useProfiles();
+  const { settings, updateSettings } = useSettings(activeStore);
+  const locale = LOCALES[settings.locale];
+  const t = createTranslator(locale);
+  const palette = PALETTES[settings.palette];
+  const [isSettingsOpen, setSettingsOpen] = useState(false);
+  const [isVersusOpen, setVersusOpen] = useState(false);
+  const [isReplayOpen, setReplayOpen] = useState(false);
+  const [isBadgesOpen, setBadgesOpen] = useState(false);
+  const [isProfilesOpen, setProfilesOpen] = useState(false);
+  const [isResultCopied, setResultCopied] = useState(false);
+  const [isPracticeSelected, setPracticeSelected] = useState(false);
+  const [isPracticeTimed, setPracticeTimed] = useState(false);
+  const {
+    gameState,
+    isPromptShown,
+    progress,
+    lastReplay,
+    earnedBadges,
+    dismissBadge,
+    startLevel,
+    startEndless,
+    startDaily,
+    startPractice,
+    startAdaptive,
+    handleColorClick,
+    retryLevel,
+    replayLevel,
+    continueToNextLevel,
+    startGameFromHomepage,
+    returnToHomepage,
+    setPromptMode,
+    pauseGame,
+    resumeGame,
+  } = useGameLogic(locale, settings, activeStore);
+  const activeProfileName = getProfileName(profiles, activeProfile, t);
+  const activeLevel = getActiveLevel(gameState);
+  const comboMultiplier = getComboMultiplier(getScoringRules(activeLevel), gameState.combo);
+  const isPickRuleShown = gameState.gameStatus === 'playing'
+    && activeLevel?.ruleSwitch?.cue === 'background'
+    && gameState.promptRules[gameState.currentColorIndex] === 'pick';
+  const instructions = gameState.preferredPromptMode === 'speech' ? t('instructions') : t('instructionsVisual');
+  const focusedTile = useKeyboardControls({
+    isPlaying: gameState.gameStatus === 'playing',
+    isPaused: gameState.gameStatus === 'paused',
+    tileCount: gameState.visualColors.length,
+    columns: getGridColumns(gameState.visualColors.length),
+    onTap: handleColorClick,
+    onPause: pauseGame,
+    onResume: resumeGame,
+  });
 
-  const generateVisualColors = (level: number, currentColor: ColorName, lastArrangement: ColorName[] = []) => {
-    const colorNames = Object.keys(GAME_COLORS) as ColorName[];
-    
-    let colors: ColorName[];
-    
-    if (level <= 2) {
-      // Level 1 & 2: 2 colors (Blue, Green)
-      colors = colorNames.slice(0, 2);
-    } else if (level <= 4) {
-      // Level 3 & 4: 4 colors (Blue, Green, Yellow, Red)
-      colors = colorNames.slice(0, 4);
-    } else if (level === 5) {
-      // Level 5: 4 squares, but 2 are the forbidden color, 2 are different
-      const forbiddenColor = currentColor;
-      const otherColors = colorNames.slice(0, 4).filter(color => color !== forbiddenColor);
-      
-      // Ensure we have exactly 2 different colors from the remaining 3
-      const color1 = otherColors[0];
-      const color2 = otherColors[1];
-      
-      colors = [forbiddenColor, forbiddenColor, color1, color2];
-    } else {
-      // Level 6+: Default to 4 colors
-      colors = colorNames.slice(0, 4);
-    }
-    
-    // For Levels 1-2, prevent consecutive identical arrangements
-    if (level <= 2) {
-      let shuffledColors: ColorName[];
-      let attempts = 0;
-      
-      do {
-        shuffledColors = shuffleArray(colors);
-        attempts++;
-      } while (
-        attempts < 10 && // Prevent infinite loop
-        lastArrangement.length > 0 && 
-        JSON.stringify(shuffledColors) === JSON.stringify(lastArrangement)
-      );
-      
-      return shuffledColors;
-    }
-    
-    // For other levels, just shuffle normally
-    return shuffleArray(colors);
+  const startGameAtLevel = (level: number) => {
+    // Start the level directly without going through waiting screen
+    if (isPracticeSelected) startPractice(level, isPracticeTimed);
+    else startLevel(level);
   };
 
-  const speakColor = async (color: string) => {
+  const copyDailyResult = async () => {
+    if (!progress) return;
     try {
-      await Speech.speak(color, {
-        language: 'en-US',
-        pitch: 1.0,
-        rate: 0.8,
-      });
+      await Clipboard.setStringAsync(buildShareText(t('title'), progress.daily));
+      setResultCopied(true);
     } catch (error) {
-      console.log('Speech error:', error);
-    }
-  };
-
-  const startLevel = (level: number) => {
-    const { sequence, availableColors } = generateColorSequence(level);
-    // Custom timing per level
-    const timeLimits = [0, 20, 15, 20, 15, 15, 5]; // Level 1: 20s, Level 2: 15s, Level 3: 20s, Level 4: 15s, Level 5: 15s, etc.
-    const timeLimit = timeLimits[level] || 5;
-    const startTime = Date.now();
-    
-    // Generate initial visual colors
-    const initialVisualColors = generateVisualColors(level, sequence[0], []);
-    
-    setGameState(prev => ({
-      ...prev,
-      currentLevel: level,
-      timeRemaining: timeLimit,
-      colorsToClick: sequence,
-      availableColors,
-      visualColors: initialVisualColors,
-      lastArrangement: initialVisualColors,
-      currentColorIndex: 0,
-      gameStatus: 'playing',
-      isGameActive: true,
-      levelStartTime: startTime,
-      levelTimeLimit: timeLimit,
-      levelScore: 0,
-    }));
-
-    // Start speaking the first color after a delay
-    setTimeout(() => {
-      speakColor(sequence[0]);
-    }, 1000);
-  };
-
-  const handleColorClick = (clickedColor: ColorName) => {
-    if (gameState.gameStatus !== 'playing' || gameState.isTransitioning) return;
-
-    const currentColor = gameState.colorsToClick[gameState.currentColorIndex];
-    const isCorrect = clickedColor !== currentColor;
-
-    if (isCorrect) {
-      // Correct click - move to next color
-      const newIndex = gameState.currentColorIndex + 1;
-      if (newIndex >= gameState.colorsToClick.length) {
-        // Level completed! Calculate score with accurate timing
-        const elapsedTime = (Date.now() - gameState.levelStartTime) / 1000; // in seconds
-        const actualTimeRemaining = Math.max(0, gameState.levelTimeLimit - elapsedTime);
-        const baseScore = 100; // 10 points per color × 10 colors
-        const timeBonus = Math.floor(actualTimeRemaining) * 10;
-        const totalLevelScore = baseScore + timeBonus;
-        
-        // Unlock next level if not already unlocked
-        const nextLevel = gameState.currentLevel + 1;
-        const newUnlockedLevels = [...gameState.unlockedLevels];
-        if (nextLevel <= 6 && !newUnlockedLevels.includes(nextLevel)) {
-          newUnlockedLevels.push(nextLevel);
-        }
-        
-        setGameState(prev => ({
-          ...prev,
-          score: prev.score + totalLevelScore,
-          levelScore: totalLevelScore,
-          levelSummary: { base: baseScore, time: timeBonus, total: totalLevelScore },
-          gameStatus: 'levelSummary',
-          isGameActive: false,
-          unlockedLevels: newUnlockedLevels,
-        }));
-      } else {
-        // Set transitioning state to prevent double clicks
-        setGameState(prev => ({
-          ...prev,
-          isTransitioning: true,
-        }));
-        
-        // Refresh grid for all levels when moving to next color
-        const newVisualColors = generateVisualColors(gameState.currentLevel, gameState.colorsToClick[newIndex], gameState.lastArrangement);
-          
-        setGameState(prev => ({
-          ...prev,
-          currentColorIndex: newIndex,
-          visualColors: newVisualColors,
-          lastArrangement: newVisualColors, // Update last arrangement
-          isTransitioning: false, // Re-enable clicks after grid refresh
-        }));
-        // Speak next color
-        speakColor(gameState.colorsToClick[newIndex]);
-      }
-    } else {
-      // Wrong click - lose life and points
-      const newScore = Math.max(0, gameState.score - 10);
-      const newLives = gameState.lives - 1;
-      
-      if (newScore <= 0 || newLives <= 0) {
-        // Game Over - reset everything
-        setGameState(prev => ({
-          ...prev,
-          score: 0,
-          lives: 3,
-          currentLevel: 1,
-          gameStatus: 'failed',
-          isGameActive: false,
-          levelSummary: { base: 0, time: 0, total: -10 },
-        }));
-      } else {
-        // Lose life but retry same level
-        setGameState(prev => ({
-          ...prev,
-          score: newScore,
-          lives: newLives,
-          gameStatus: 'levelSummary',
-          isGameActive: false,
-          levelSummary: { base: 0, time: 0, total: -10 },
-        }));
-      }
+      console.log('Clipboard error:', error);
     }
   };
 
-  const resetGame = () => {
-    setGameState(prev => ({
-      currentLevel: 1,
-      score: 0,
-      lives: 3,
-      timeRemaining: 0,
-      currentColorIndex: 0,
-      colorsToClick: [],
-      availableColors: [],
-      visualColors: [],
-      gameStatus: 'homepage',
-      isGameActive: false,
-      levelStartTime: 0,
-      levelTimeLimit: 0,
-      levelScore: 0,
-      levelSummary: { base: 0, time: 0, total: 0 },
-      unlockedLevels: prev.unlockedLevels, // Preserve unlocked levels
-      isTransitioning: false,
-      lastArrangement: [],
-    }));
-  };
-
-  const continueToNextLevel = () => {
-    startLevel(gameState.currentLevel + 1);
-  };
+  const renderDailyButton = () => {
+    if (!progress) return null;
+    const today = getDateKey(new Date());
+    const streak = getCurrentDailyStreak(progress.daily, today);
+    const isDone = isDailyTaken(progress.daily, today);
+    // A run left before the end has nothing to share
+    const hasResult = progress.daily.lastResult?.date === today;
 
-  const retryLevel = () => {
-    startLevel(gameState.currentLevel);
-  };
-
-  const startGameFromHomepage = () => {
-    setGameState(prev => ({
-      ...prev,
-      currentLevel: 1,
-      score: 0,
-      lives: 3,
-      gameStatus: 'waiting',
-    }));
-  };
-
-  const startGameAtLevel = (level: number) => {
-    // Only allow starting unlocked levels
-    if (!gameState.unlockedLevels.includes(level)) {
-      return; // Do nothing if level is locked
-    }
-    
-    // Start the level directly without going through waiting screen
-    startLevel(level);
-  };
-
-  const returnToHomepage = () => {
-    setGameState(prev => ({
-      ...prev,
-      gameStatus: 'homepage',
-      isGameActive: false,
-      timeRemaining: 0,
-      currentColorIndex: 0,
-      colorsToClick: [],
-      availableColors: [],
-      visualColors: [],
-      isTransitioning: false,
-      lastArrangement: [],
-    }));
-  };
-
-
-
-  // Timer effect - update display every 100ms for accuracy
-  useEffect(() => {
-    if (gameState.isGameActive) {
-      const timer = setInterval(() => {
-        const elapsedTime = (Date.now() - gameState.levelStartTime) / 1000;
-        const remainingTime = Math.max(0, gameState.levelTimeLimit - elapsedTime);
-        
-        setGameState(prev => ({
-          ...prev,
-          timeRemaining: Math.ceil(remainingTime),
-        }));
-        
-        if (remainingTime <= 0) {
-          // Time's up - lose life and retry
-          const newScore = Math.max(0, gameState.score - 10);
-          const newLives = gameState.lives - 1;
-          
-          if (newScore <= 0 || newLives <= 0) {
-            // Game Over
-            setGameState(prev => ({
-              ...prev,
-              score: 0,
-              lives: 3,
-              currentLevel: 1,
-              gameStatus: 'failed',
-              isGameActive: false,
-            }));
-          } else {
-            // Lose life but retry same level
-            setGameState(prev => ({
-              ...prev,
-              score: newScore,
-              lives: newLives,
-              gameStatus: 'levelSummary',
-              isGameActive: false,
-              levelSummary: { base: 0, time: 0, total: -10 },
-            }));
-          }
-        }
-      }, 100);
-
-      return () => clearInterval(timer);
-    }
-  }, [gameState.isGameActive, gameState.levelStartTime, gameState.levelTimeLimit, gameState.score, gameState.lives]);
-
-  const renderColorButton = (colorName: ColorName, index: number) => {
     return (
-      <TouchableOpacity
-        key={index} // Use index as key to handle duplicate colors in Level 5
-        style={[
-          styles.colorButton,
-          {
-            backgroundColor: GAME_COLORS[colorName],
-          }
-        ]}
-        onPress={() => handleColorClick(colorName)}
-        disabled={gameState.gameStatus !== 'playing' || gameState.isTransitioning}
-      />
+      <View style={styles.dailyRow}>
+        <TouchableOpacity
+          style={[styles.endlessButton, isDone && styles.levelButtonLocked]}
+          onPress={() => {
+            setResultCopied(false);
+            startDaily();
+          }}
+          disabled={isDone}
+          accessibilityState={{ disabled: isDone }}
+        >
+          <Text style={styles.endlessButtonText}>{t('dailyChallenge')}</Text>
+          <Text style={styles.levelBestText}>
+            {isDone ? t('dailyDone') : streak > 0 ? t('dailyStreak', { streak }) : today}
+          </Text>
+        </TouchableOpacity>
+        {hasResult && (
+          <TouchableOpacity onPress={copyDailyResult}>
+            <Text style={styles.replayLink}>{isResultCopied ? t('copied') : t('copyResult')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
     );
   };
 
   const renderHomepage = () => {
+    if (isSettingsOpen) {
+      return (
+        <SettingsPanel
+          settings={settings}
+          updateSettings={updateSettings}
+          t={t}
+          onClose={() => setSettingsOpen(false)}
+        />
+      );
+    }
+
     return (
       <View style={styles.homepageContainer}>
         <View style={styles.introSection}>
-          <Text style={styles.readyText}>Ready to play?</Text>
-          <Text style={styles.instructionText}>
-            You'll hear a color. Do NOT select it. If you do, you lose!
-          </Text>
+          <TouchableOpacity
+            style={styles.profileChip}
+            onPress={() => setProfilesOpen(true)}
+            accessibilityRole="button"
+            accessibilityLabel={t('profiles')}
+          >
+            <ProfileAvatar profile={activeProfile} name={activeProfileName} palette={palette} size={24} />
+            <Text style={styles.profileChipText}>{activeProfileName}</Text>
+          </TouchableOpacity>
+          <Text style={styles.readyText}>{t('readyToPlay')}</Text>
+          <Text style={styles.instructionText}>{instructions}</Text>
+          <View style={styles.languagePicker}>
+            {(Object.keys(PROMPT_MODE_LABELS) as PromptMode[]).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.languageButton, mode === gameState.preferredPromptMode && styles.languageButtonActive]}
+                onPress={() => setPromptMode(mode)}
+              >
+                <Text style={styles.languageButtonText}>{t(PROMPT_MODE_LABELS[mode])}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.languagePicker}>
+            {Object.values(LOCALES).map((option) => (
+              <TouchableOpacity
+                key={option.code}
+                style={[styles.languageButton, option.code === locale.code && styles.languageButtonActive]}
+                onPress={() => updateSettings({ locale: option.code })}
+              >
+                <Text style={styles.languageButtonText}>{option.name}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.languageButton} onPress={() => setSettingsOpen(true)}>
+              <Text style={styles.languageButtonText}>{t('settings')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.languageButton} onPress={() => setReplayOpen(true)}>
+              <Text style={styles.languageButtonText}>{t('replays')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.languageButton} onPress={() => setBadgesOpen(true)}>
+              <Text style={styles.languageButtonText}>{t('badges')}</Text>
+            </TouchableOpacity>
+          </View>
+          {Platform.OS === 'web' && <Text style={styles.keyboardHint}>{t('keyboardHint')}</Text>}
         </View>
         
         <View style={styles.ctaSection}>
           <TouchableOpacity style={styles.startButton} onPress={startGameFromHomepage}>
-            <Text style={styles.buttonText}>START GAME</Text>
+            <Text style={styles.buttonText}>{t('startGame')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.endlessButton} onPress={() => startEndless()}>
+            <Text style={styles.endlessButtonText}>{t('endlessMode')}</Text>
+            {progress && progress.endless.bestScore > 0 && (
+              <Text style={styles.levelBestText}>{t('highScore', { score: progress.endless.bestScore })}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.endlessButton} onPress={startAdaptive} disabled={!progress}>
+            <Text style={styles.endlessButtonText}>{t('adaptiveMode')}</Text>
+            {progress && progress.adaptive.bestScore > 0 && (
+              <Text style={styles.levelBestText}>{t('highScore', { score: progress.adaptive.bestScore })}</Text>
+            )}
+          </TouchableOpacity>
+          {renderDailyButton()}
+          <TouchableOpacity style={styles.endlessButton} onPress={() => setVersusOpen(true)}>
+            <Text style={styles.endlessButtonText}>{t('versusMode')}</Text>
           </TouchableOpacity>
         </View>
         
         <View style={styles.levelSelector}>
-          <Text style={styles.levelSelectorTitle}>Or choose a level:</Text>
+          <Text style={styles.levelSelectorTitle}>{t('chooseLevel')}</Text>
+          <View style={styles.languagePicker}>
+            {[false, true].map((isPractice) => (
+              <TouchableOpacity
+                key={String(isPractice)}
+                style={[styles.languageButton, isPractice === isPracticeSelected && styles.languageButtonActive]}
+                onPress={() => setPracticeSelected(isPractice)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isPractice === isPracticeSelected }}
+              >
+                <Text style={styles.languageButtonText}>{isPractice ? t('practice') : t('ranked')}</Text>
+              </TouchableOpacity>
+            ))}
+            {isPracticeSelected && (
+              <TouchableOpacity
+                style={[styles.languageButton, isPracticeTimed && styles.languageButtonActive]}
+                onPress={() => setPracticeTimed(!isPracticeTimed)}
+                accessibilityRole="switch"
+                accessibilityState={{ checked: isPracticeTimed }}
+              >
+                <Text style={styles.languageButtonText}>
+                  {t('practiceTimer', { state: isPracticeTimed ? t('on') : t('off') })}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
           <View style={styles.levelGrid}>
-            {[1, 2, 3, 4, 5, 6].map((level) => {
-              const isUnlocked = gameState.unlockedLevels.includes(level);
+            {GAME_LEVELS.map((level) => {
+              const isUnlocked = gameState.unlockedLevels.includes(level.id);
+              const record = progress?.levelRecords[level.id];
+              const practiceRecord = progress?.practice[level.id];
               return (
                 <TouchableOpacity
-                  key={level}
+                  key={level.id}
                   style={[
                     styles.levelButton,
                     !isUnlocked && styles.levelButtonLocked
                   ]}
-                  onPress={() => startGameAtLevel(level)}
+                  onPress={() => startGameAtLevel(level.id)}
                   disabled={!isUnlocked}
+                  accessibilityRole="button"
+                  accessibilityLabel={isUnlocked ? undefined : t('lockedLevelLabel', { level: level.id })}
+                  accessibilityState={{ disabled: !isUnlocked }}
                 >
                   <Text style={[
                     styles.levelButtonText,
                     !isUnlocked && styles.levelButtonTextLocked
                   ]}>
-                    {isUnlocked ? `Level ${level}` : '🔒'}
+                    {isUnlocked ? t('level', { level: level.id }) : '🔒'}
                   </Text>
+                  {isUnlocked && isPracticeSelected && practiceRecord && (
+                    <Text style={styles.levelBestText}>
+                      {t('practiceBest', { accuracy: practiceRecord.bestAccuracy })}
+                      {practiceRecord.bestTimeMs !== null ? ` · ${(practiceRecord.bestTimeMs / 1000).toFixed(1)}s` : ''}
+                    </Text>
+                  )}
+                  {isUnlocked && !isPracticeSelected && record && (
+                    <Text style={styles.levelBestText}>
+                      {t('levelBest', { score: record.bestScore })}
+                      {record.bestTimeMs !== null ? ` · ${(record.bestTimeMs / 1000).toFixed(1)}s` : ''}
+                    </Text>
+                  )}
                 </TouchableOpacity>
               );
             })}
@@ -442,6 +328,262 @@ const GameScreen: React.FC = () => {
     );
   };
 
+  // Visual and stroop modes show the forbidden color as a word instead of speaking it
+  const renderPromptWord = () => {
+    const word = gameState.colorsToClick[gameState.currentColorIndex];
+    const isNoGo = gameState.noGoPrompts[gameState.currentColorIndex] ?? false;
+    const ink = gameState.promptInk && !isNoGo ? palette.colors[gameState.promptInk] : '#1e3c72';
+    const shown = isNoGo ? t('noGoWord') : word && locale.colors[word];
+    return (
+      <View style={styles.promptWordContainer}>
+        <Text style={[styles.promptWord, { color: ink }]} accessibilityLiveRegion="assertive">
+          {isPromptShown && shown ? shown.toUpperCase() : ' '}
+        </Text>
+      </View>
+    );
+  };
+
+  const formatReaction = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+  const formatSignedReaction = (ms: number) => `${ms >= 0 ? '+' : ''}${formatReaction(ms)}`;
+
+  // Per-prompt breakdown shown under the points on both summary screens
+  const renderAnalytics = () => {
+    const analytics = analyzePrompts(gameState.promptLog);
+    if (analytics.answeredCount === 0) return null;
+
+    const hasMistakes = analytics.mistakesByTile.some(count => count > 0);
+    return (
+      <View style={styles.analyticsContainer}>
+        {analytics.averageReactionMs !== null && (
+          <Text style={styles.analyticsText}>{t('averageReaction', { time: formatReaction(analytics.averageReactionMs) })}</Text>
+        )}
+        {analytics.fastestReactionMs !== null && (
+          <Text style={styles.analyticsText}>{t('fastestReaction', { time: formatReaction(analytics.fastestReactionMs) })}</Text>
+        )}
+        {analytics.slowestColor && (
+          <Text style={styles.analyticsText}>
+            {t('slowestColor', {
+              color: locale.colors[analytics.slowestColor.color],
+              time: formatReaction(analytics.slowestColor.averageMs),
+            })}
+          </Text>
+        )}
+        {analytics.missedCount > 0 && (
+          <Text style={styles.analyticsText}>{t('missed', { count: analytics.missedCount })}</Text>
+        )}
+        {analytics.commissionCount > 0 && (
+          <Text style={styles.analyticsText}>{t('stopTapped', { count: analytics.commissionCount })}</Text>
+        )}
+        {analytics.switchCost && (
+          <Text style={styles.analyticsText}>
+            {t('switchErrors', {
+              count: analytics.switchCost.switchCount,
+              switched: analytics.switchCost.switchErrorRate,
+              repeated: analytics.switchCost.repeatErrorRate,
+            })}
+          </Text>
+        )}
+        {analytics.switchCost && analytics.switchCost.reactionCostMs !== null && (
+          <Text style={styles.analyticsText}>
+            {t('switchReaction', { time: formatSignedReaction(analytics.switchCost.reactionCostMs) })}
+          </Text>
+        )}
+        {hasMistakes && (
+          <>
+            <Text style={styles.analyticsText}>{t('mistakesByPosition')}</Text>
+            <View style={[styles.mistakeGrid, { width: getGridColumns(analytics.mistakesByTile.length) * 32 }]}>
+              {analytics.mistakesByTile.map((count, index) => (
+                <View key={index} style={[styles.mistakeCell, count > 0 && styles.mistakeCellHit]}>
+                  <Text style={styles.mistakeCellText}>{count}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  // One line per component the level's scoring rules produced; labels can be swapped per mode
+  const renderScoreBreakdown = (summary: LevelSummary, labels: Partial<Record<ScoreComponentKind, UiStringKey>> = {}) =>
+    summary.components.map((component) => (
+      <Text key={component.kind} style={styles.pointsText}>
+        {t(labels[component.kind] ?? SCORE_COMPONENT_LABELS[component.kind], {
+          count: component.count,
+          points: Math.abs(component.points),
+          total: gameState.colorsToClick.length,
+        })}
+      </Text>
+    ));
+
+  const renderWatchReplayLink = () => lastReplay && (
+    <TouchableOpacity onPress={() => setReplayOpen(true)}>
+      <Text style={styles.replayLink}>{t('watchReplay')}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEndlessSummary = () => {
+    const isHighScore = progress !== null && gameState.score >= progress.endless.bestScore && gameState.score > 0;
+    return (
+      <View style={[styles.levelSummaryContainer, styles.winContainer]} accessibilityLiveRegion="polite">
+        <Text style={styles.levelSummaryTitle} accessibilityRole="header">
+          {isHighScore ? t('newHighScore') : t('endlessOver')}
+        </Text>
+        <View style={styles.pointsBreakdown}>
+          {renderScoreBreakdown(gameState.levelSummary, { colors: 'colorsSurvived' })}
+          <Text style={styles.pointsText}>{t('bestStreak', { streak: gameState.bestStreak })}</Text>
+          <Text style={styles.totalPointsText}>{t('endlessTotal', { points: gameState.levelSummary.total })}</Text>
+        </View>
+        {renderAnalytics()}
+        <TouchableOpacity style={styles.nextButton} onPress={retryLevel}>
+          <Text style={styles.buttonText}>{t('playAgain')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={returnToHomepage}>
+          <Text style={styles.replayLink}>{t('backToHome')}</Text>
+        </TouchableOpacity>
+        {renderWatchReplayLink()}
+      </View>
+    );
+  };
+
+  const renderDailySummary = () => (
+    <View style={[styles.levelSummaryContainer, styles.winContainer]} accessibilityLiveRegion="polite">
+      <Text style={styles.levelSummaryTitle} accessibilityRole="header">
+        {t('dailyTitle', { date: gameState.challengeDate })}
+      </Text>
+      <View style={styles.pointsBreakdown}>
+        {renderScoreBreakdown(gameState.levelSummary, { colors: 'dailyCorrect' })}
+        <Text style={styles.pointsText}>{t('dailyTime', { time: formatReaction(gameState.levelDurationMs) })}</Text>
+        {progress && progress.daily.streak > 0 && (
+          <Text style={styles.pointsText}>{t('dailyStreak', { streak: progress.daily.streak })}</Text>
+        )}
+        <Text style={styles.totalPointsText}>{t('endlessTotal', { points: gameState.levelSummary.total })}</Text>
+      </View>
+      {progress?.daily.lastResult && <Text style={styles.dailyMarks}>{progress.daily.lastResult.marks}</Text>}
+      {renderAnalytics()}
+      <TouchableOpacity style={styles.nextButton} onPress={copyDailyResult}>
+        <Text style={styles.buttonText}>{isResultCopied ? t('copied') : t('copyResult')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={returnToHomepage}>
+        <Text style={styles.replayLink}>{t('backToHome')}</Text>
+      </TouchableOpacity>
+      {renderWatchReplayLink()}
+    </View>
+  );
+
+  // How the run went against the target, and the difficulty the model has settled on for next time
+  const renderAdaptiveSummary = () => {
+    const next = getAdaptiveLevel(gameState.playerModel);
+    return (
+      <View style={[styles.levelSummaryContainer, styles.winContainer]} accessibilityLiveRegion="polite">
+        <Text style={styles.levelSummaryTitle} accessibilityRole="header">{t('adaptiveOver')}</Text>
+        <View style={styles.pointsBreakdown}>
+          {renderScoreBreakdown(gameState.levelSummary, { colors: 'dailyCorrect' })}
+          <Text style={styles.pointsText}>
+            {t('adaptiveSuccess', {
+              rate: getAccuracy(gameState.correctCount, gameState.promptLog.length),
+              target: Math.round(ADAPTIVE_MODE.targetSuccessRate * 100),
+            })}
+          </Text>
+          <Text style={styles.totalPointsText}>{t('endlessTotal', { points: gameState.levelSummary.total })}</Text>
+        </View>
+        <View style={styles.analyticsContainer}>
+          <Text style={styles.analyticsText}>{t('adaptiveDifficulty')}</Text>
+          <Text style={styles.analyticsText}>{t('adaptivePace', { seconds: gameState.playerModel.promptTime.toFixed(2) })}</Text>
+          <Text style={styles.analyticsText}>{t('adaptiveGrid', { count: next.gridSize })}</Text>
+          <Text style={styles.analyticsText}>{t('adaptiveDecoys', { count: next.decoys?.forbiddenTiles ?? 0 })}</Text>
+        </View>
+        {renderAnalytics()}
+        <TouchableOpacity style={styles.nextButton} onPress={retryLevel}>
+          <Text style={styles.buttonText}>{t('playAgain')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={returnToHomepage}>
+          <Text style={styles.replayLink}>{t('backToHome')}</Text>
+        </TouchableOpacity>
+        {renderWatchReplayLink()}
+      </View>
+    );
+  };
+
+  // Practice says right away what went wrong with the last answer
+  const renderPracticeFeedback = () => {
+    const record = gameState.promptLog[gameState.promptLog.length - 1];
+    if (!record) return <Text style={styles.feedbackText}> </Text>;
+
+    const spoken = locale.colors[record.spokenColor];
+    let feedback = t('practiceCorrect');
+    if (record.isNoGo) feedback = record.isCorrect ? t('practiceHeld') : t('practiceStopTapped');
+    else if (record.tappedColor === null) feedback = t('practiceMissed', { spoken });
+    else if (!record.isCorrect && record.rule === 'pick') feedback = t('practicePickMistake', { spoken });
+    else if (!record.isCorrect) feedback = t('practiceMistake', { spoken });
+
+    return <Text style={styles.feedbackText} accessibilityLiveRegion="polite">{feedback}</Text>;
+  };
+
+  const renderPracticeSummary = () => {
+    const total = gameState.colorsToClick.length;
+    return (
+      <View style={[styles.levelSummaryContainer, styles.winContainer]} accessibilityLiveRegion="polite">
+        <Text style={styles.levelSummaryTitle} accessibilityRole="header">
+          {t('practiceTitle', { level: gameState.currentLevel })}
+        </Text>
+        <View style={styles.pointsBreakdown}>
+          <Text style={styles.totalPointsText}>
+            {t('practiceAccuracy', { accuracy: getAccuracy(gameState.correctCount, total) })}
+          </Text>
+          <Text style={styles.pointsText}>
+            {t('practiceAnswered', { count: gameState.correctCount, total, mistakes: gameState.mistakeCount })}
+          </Text>
+          <Text style={styles.pointsText}>{t('dailyTime', { time: formatReaction(gameState.levelDurationMs) })}</Text>
+        </View>
+        <Text style={styles.instructionText}>{t('practiceNote')}</Text>
+        {renderAnalytics()}
+        <TouchableOpacity style={styles.nextButton} onPress={retryLevel}>
+          <Text style={styles.buttonText}>{t('playAgain')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={returnToHomepage}>
+          <Text style={styles.replayLink}>{t('backToHome')}</Text>
+        </TouchableOpacity>
+        {renderWatchReplayLink()}
+      </View>
+    );
+  };
+
+  const getPlayingStatus = () => {
+    const seconds = gameState.timeRemaining;
+    switch (gameState.mode) {
+      case 'endless':
+        return t('endlessStatus', { streak: gameState.streak, seconds });
+      case 'daily':
+        return t('dailyStatus', { index: gameState.currentColorIndex + 1, total: gameState.colorsToClick.length, seconds });
+      case 'adaptive':
+        return t('adaptiveStatus', { index: gameState.currentColorIndex + 1, total: ADAPTIVE_MODE.sequenceLength, seconds });
+      case 'practice': {
+        const progressParams = { answered: gameState.currentColorIndex, total: gameState.colorsToClick.length };
+        return gameState.practiceTimed
+          ? t('practiceStatusTimed', { ...progressParams, seconds })
+          : t('practiceStatus', progressParams);
+      }
+      default:
+        return t('levelStatus', { level: gameState.currentLevel, seconds });
+    }
+  };
+
+  const getRunName = () => {
+    switch (gameState.mode) {
+      case 'endless':
+        return t('endless');
+      case 'daily':
+        return t('dailyTitle', { date: gameState.challengeDate });
+      case 'practice':
+        return t('practiceTitle', { level: gameState.currentLevel });
+      case 'adaptive':
+        return t('adaptive');
+      default:
+        return t('level', { level: gameState.currentLevel });
+    }
+  };
+
   const renderGameStatus = () => {
     switch (gameState.gameStatus) {
       case 'homepage':
@@ -449,61 +591,99 @@ const GameScreen: React.FC = () => {
       case 'waiting':
         return (
           <View style={styles.startContainer}>
-            <Text style={styles.readyText}>Ready to play?</Text>
-            <Text style={styles.instructionText}>
-              You'll hear a color. Do NOT select it. If you do, you lose!
-            </Text>
-            <TouchableOpacity style={styles.startButton} onPress={() => startLevel(1)}>
-              <Text style={styles.buttonText}>START GAME</Text>
+            <Text style={styles.readyText}>{t('readyToPlay')}</Text>
+            <Text style={styles.instructionText}>{instructions}</Text>
+            <TouchableOpacity style={styles.startButton} onPress={() => startLevel(GAME_LEVELS[0].id)}>
+              <Text style={styles.buttonText}>{t('startGame')}</Text>
             </TouchableOpacity>
           </View>
         );
       case 'playing':
         return (
           <View>
-            <Text style={styles.statusText}>
-              Level {gameState.currentLevel} - Time: {gameState.timeRemaining}s
+            <Text style={styles.statusText} accessibilityRole="timer">{getPlayingStatus()}</Text>
+            {activeLevel?.noGo && <Text style={styles.instructionText}>{t('noGoHint')}</Text>}
+            {activeLevel?.ruleSwitch && (
+              <Text style={styles.instructionText}>
+                {activeLevel.ruleSwitch.cue === 'voice' ? t('ruleVoiceHint') : t('ruleBackgroundHint')}
+              </Text>
+            )}
+            {gameState.promptMode !== 'speech' && renderPromptWord()}
+            {gameState.mode === 'practice' && renderPracticeFeedback()}
+          </View>
+        );
+      case 'paused':
+        return (
+          <View style={styles.startContainer}>
+            <Text style={styles.readyText}>{t('paused')}</Text>
+            <Text style={styles.instructionText}>
+              {gameState.mode === 'practice' && !gameState.practiceTimed
+                ? t('pausedInfoUntimed', { name: getRunName() })
+                : t('pausedInfo', {
+                  name: getRunName(),
+                  seconds: gameState.timeRemaining,
+                })}
             </Text>
+            <TouchableOpacity style={styles.startButton} onPress={resumeGame}>
+              <Text style={styles.buttonText}>{t('resume')}</Text>
+            </TouchableOpacity>
           </View>
         );
       case 'levelSummary':
+        if (gameState.mode === 'endless') return renderEndlessSummary();
+        if (gameState.mode === 'daily') return renderDailySummary();
+        if (gameState.mode === 'practice') return renderPracticeSummary();
+        if (gameState.mode === 'adaptive') return renderAdaptiveSummary();
         const isWin = gameState.levelSummary.total > 0;
+        const hasNextLevel = getNextLevel(gameState.currentLevel) !== undefined;
+        const nextAction = isWin ? (hasNextLevel ? continueToNextLevel : returnToHomepage) : retryLevel;
+        const nextLabel = isWin ? (hasNextLevel ? t('nextLevel') : t('backToHome')) : t('retryLevel');
         return (
-          <View style={[styles.levelSummaryContainer, isWin ? styles.winContainer : styles.lossContainer]}>
-            <Text style={styles.levelSummaryTitle}>
-              {isWin ? `Level ${gameState.currentLevel} Complete!` : `Level ${gameState.currentLevel} Failed!`}
+          <View
+            style={[styles.levelSummaryContainer, isWin ? styles.winContainer : styles.lossContainer]}
+            accessibilityLiveRegion="polite"
+          >
+            <Text style={styles.levelSummaryTitle} accessibilityRole="header">
+              {isWin
+                ? t('levelComplete', { level: gameState.currentLevel })
+                : t('levelFailed', { level: gameState.currentLevel })}
             </Text>
             <View style={styles.pointsBreakdown}>
               {isWin ? (
                 <>
-                  <Text style={styles.pointsText}>✅ 10 colors found = +{gameState.levelSummary.base} pts</Text>
-                  <Text style={styles.pointsText}>⏱️ +{gameState.levelSummary.time/10}s saved = +{gameState.levelSummary.time} pts</Text>
-                  <Text style={styles.totalPointsText}>🏆 TOTAL = +{gameState.levelSummary.total} pts</Text>
+                  {renderScoreBreakdown(gameState.levelSummary)}
+                  <Text style={styles.totalPointsText}>{t('winTotal', { points: gameState.levelSummary.total })}</Text>
                 </>
               ) : (
                 <>
-                  <Text style={styles.pointsText}>❌ Wrong color = –10 pts</Text>
-                  <Text style={styles.totalPointsText}>🔻 TOTAL = –10 pts</Text>
+                  {renderScoreBreakdown(gameState.levelSummary, { mistakes: 'wrongColor' })}
+                  <Text style={styles.totalPointsText}>{t('lossTotal', { points: -gameState.levelSummary.total })}</Text>
                 </>
               )}
             </View>
+            {renderAnalytics()}
             <TouchableOpacity 
               style={isWin ? styles.nextButton : styles.retryButton} 
-              onPress={isWin ? continueToNextLevel : retryLevel}
+              onPress={nextAction}
             >
-              <Text style={styles.buttonText}>{isWin ? 'Next Level' : 'Retry Level'}</Text>
+              <Text style={styles.buttonText}>{nextLabel}</Text>
+            </TouchableOpacity>
+            <Text style={styles.tapToContinue}>{t('tapToContinue')}</Text>
+            <TouchableOpacity onPress={replayLevel}>
+              <Text style={styles.replayLink}>{t('replayRun', { seed: gameState.seed })}</Text>
             </TouchableOpacity>
-            <Text style={styles.tapToContinue}>Tap to continue</Text>
+            {renderWatchReplayLink()}
           </View>
         );
       case 'failed':
         return (
-          <View style={styles.failedContainer}>
-            <Text style={styles.failedText}>GAME OVER</Text>
-            <Text style={styles.scoreText}>Final Score: {gameState.score}</Text>
+          <View style={styles.failedContainer} accessibilityLiveRegion="polite">
+            <Text style={styles.failedText} accessibilityRole="header">{t('gameOver')}</Text>
+            <Text style={styles.scoreText}>{t('finalScore', { score: gameState.score })}</Text>
             <TouchableOpacity style={styles.restartButton} onPress={returnToHomepage}>
-              <Text style={styles.buttonText}>Back to Home</Text>
+              <Text style={styles.buttonText}>{t('backToHome')}</Text>
             </TouchableOpacity>
+            {renderWatchReplayLink()}
           </View>
         );
       default:
@@ -511,31 +691,118 @@ const GameScreen: React.FC = () => {
     }
   };
 
+  // Replays, badges and versus matches take over the whole screen, header included
+  if (isReplayOpen) {
+    return (
+      <View style={styles.mobileViewport}>
+        <LinearGradient colors={BACKGROUND_GRADIENT} style={styles.container} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }}>
+          <ReplayScreen
+            replay={lastReplay}
+            locale={locale}
+            t={t}
+            palette={palette}
+            showPatterns={settings.showPatterns}
+            onExit={() => setReplayOpen(false)}
+          />
+        </LinearGradient>
+      </View>
+    );
+  }
+
+  if (isProfilesOpen) {
+    return (
+      <View style={styles.mobileViewport}>
+        <LinearGradient colors={BACKGROUND_GRADIENT} style={styles.container} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }}>
+          <ProfilesScreen
+            profiles={profiles}
+            activeId={activeProfile.id}
+            locale={locale}
+            t={t}
+            palette={palette}
+            onSwitch={switchProfile}
+            onCreate={createProfile}
+            onReset={resetProfile}
+            onDelete={deleteProfile}
+            onExit={() => setProfilesOpen(false)}
+          />
+        </LinearGradient>
+      </View>
+    );
+  }
+
+  if (isBadgesOpen && progress) {
+    return (
+      <View style={styles.mobileViewport}>
+        <LinearGradient colors={BACKGROUND_GRADIENT} style={styles.container} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }}>
+          <BadgesScreen achievements={progress.achievements} t={t} onExit={() => setBadgesOpen(false)} />
+        </LinearGradient>
+      </View>
+    );
+  }
+
+  if (isVersusOpen) {
+    return (
+      <View style={styles.mobileViewport}>
+        <LinearGradient colors={BACKGROUND_GRADIENT} style={styles.container} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }}>
+          <VersusScreen
+            locale={locale}
+            t={t}
+            palette={palette}
+            showPatterns={settings.showPatterns}
+            unlockedLevels={gameState.unlockedLevels}
+            preferredPromptMode={gameState.preferredPromptMode}
+            audio={settings}
+            onExit={() => setVersusOpen(false)}
+          />
+        </LinearGradient>
+      </View>
+    );
+  }
+
   return (
     <View style={styles.mobileViewport}>
       <LinearGradient
-        colors={['#1e3c72', '#2a5298', '#667eea', '#764ba2']}
+        colors={isPickRuleShown ? PICK_RULE_GRADIENT : BACKGROUND_GRADIENT}
         style={styles.container}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
       >
         <View style={styles.header}>
-          {/* Home button - only show during gameplay */}
-          {gameState.gameStatus === 'playing' && (
-            <TouchableOpacity style={styles.homeButton} onPress={returnToHomepage}>
+          {/* Home and pause buttons - only show during gameplay */}
+          {(gameState.gameStatus === 'playing' || gameState.gameStatus === 'paused') && (
+            <TouchableOpacity
+              style={styles.homeButton}
+              onPress={returnToHomepage}
+              accessibilityRole="button"
+              accessibilityLabel={t('homeLabel')}
+            >
               <Text style={styles.homeIcon}>🏠</Text>
             </TouchableOpacity>
           )}
-          <Text style={styles.title}>Don't Pick It!</Text>
-          <Text style={styles.subtitle}>Train your brain to go against instinct.</Text>
+          {gameState.gameStatus === 'playing' && (
+            <TouchableOpacity
+              style={[styles.homeButton, styles.pauseButton]}
+              onPress={pauseGame}
+              accessibilityRole="button"
+              accessibilityLabel={t('pauseLabel')}
+            >
+              <Text style={styles.homeIcon}>⏸</Text>
+            </TouchableOpacity>
+          )}
+          <Text style={styles.title}>{t('title')}</Text>
+          <Text style={styles.subtitle}>{t('subtitle')}</Text>
         </View>
 
         <View style={styles.gameArea}>
-          {/* Lives and Score Display */}
-          {gameState.gameStatus === 'playing' && (
+          {/* Lives and Score Display, practice has neither */}
+          {gameState.gameStatus === 'playing' && gameState.mode !== 'practice' && (
             <View style={styles.topBar}>
-              <View style={styles.livesContainer}>
-                {[1, 2, 3].map((life) => (
+              <View
+                style={styles.livesContainer}
+                accessible
+                accessibilityLabel={t('livesLabel', { lives: gameState.lives, max: STARTING_LIVES })}
+              >
+                {Array.from({ length: STARTING_LIVES }, (_, index) => index + 1).map((life) => (
                   <Text key={life} style={[
                     styles.heart,
                     life > gameState.lives && styles.heartLost
@@ -544,21 +811,43 @@ const GameScreen: React.FC = () => {
                   </Text>
                 ))}
               </View>
-              <Text style={styles.scoreText}>Score: {gameState.score}</Text>
+              <Text style={styles.scoreText}>
+                {comboMultiplier > 1 && `${t('comboStatus', { multiplier: comboMultiplier })}  `}
+                {t('score', { score: gameState.score })}
+              </Text>
             </View>
           )}
           
           {renderGameStatus()}
           
+          {gameState.gameStatus === 'playing' && gameState.promptTimeLimit > 0 && (
+            <PromptTimerBar
+              promptStartTime={gameState.promptStartTime}
+              promptTimeLimit={gameState.promptTimeLimit}
+              isRunning={gameState.isGameActive}
+              t={t}
+            />
+          )}
+
           {/* Only show color grid when playing the game */}
           {gameState.gameStatus === 'playing' && (
             <View style={styles.colorGrid}>
-              {gameState.visualColors.map((colorName, index) => 
-                renderColorButton(colorName, index)
-              )}
+              <ColorGrid
+                colors={gameState.visualColors}
+                colorNames={locale.colors}
+                palette={palette}
+                showPatterns={settings.showPatterns}
+                width={GRID_WIDTH}
+                height={GRID_HEIGHT}
+                disabled={gameState.gameStatus !== 'playing'}
+                focusedTile={focusedTile}
+                t={t}
+                onTap={handleColorClick}
+              />
             </View>
           )}
         </View>
+        {earnedBadges.length > 0 && <BadgeToast badge={earnedBadges[0]} t={t} onDismiss={dismissBadge} />}
       </LinearGradient>
     </View>
   );
@@ -605,6 +894,10 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 4,
   },
+  pauseButton: {
+    left: undefined,
+    right: 20,
+  },
   homeIcon: {
     fontSize: 20,
   },
@@ -698,6 +991,50 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 2,
   },
+  promptWordContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 56,
+    marginBottom: 5,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  },
+  promptWord: {
+    fontSize: 36,
+    fontWeight: '900',
+    letterSpacing: 2,
+  },
+  analyticsContainer: {
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  analyticsText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginBottom: 3,
+  },
+  mistakeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  mistakeCell: {
+    width: 28,
+    height: 28,
+    margin: 2,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  mistakeCellHit: {
+    backgroundColor: 'rgba(244, 67, 54, 0.6)',
+  },
+  mistakeCellText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: 'white',
+  },
   retryButton: {
     backgroundColor: '#F44336',
     paddingHorizontal: 40,
@@ -718,6 +1055,27 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontStyle: 'italic',
   },
+  replayLink: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 10,
+    textDecorationLine: 'underline',
+  },
+  dailyRow: {
+    alignItems: 'center',
+  },
+  dailyMarks: {
+    fontSize: 18,
+    letterSpacing: 2,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: 'white',
+    textAlign: 'center',
+    marginTop: 6,
+  },
   statusText: {
     fontSize: 22,
     color: 'white',
@@ -735,6 +1093,12 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     lineHeight: 20,
   },
+  keyboardHint: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    textAlign: 'center',
+    marginTop: 4,
+  },
   readyText: {
     fontSize: 20,
     color: 'white',
@@ -768,32 +1132,28 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 8,
   },
-  colorGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    justifyContent: 'space-between',
+  endlessButton: {
+    marginTop: 15,
+    paddingHorizontal: 30,
+    paddingVertical: 10,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
     alignItems: 'center',
+  },
+  endlessButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: 'white',
+    letterSpacing: 1,
+  },
+  colorGrid: {
     paddingHorizontal: 30,
     paddingBottom: 20,
     height: 280,
     width: '100%',
   },
-  colorButton: {
-    width: width * 0.35,
-    height: width * 0.35,
-    borderRadius: 20,
-    marginBottom: 15,
-    shadowColor: '#000',
-    shadowOffset: {
-      width: 0,
-      height: 6,
-    },
-    shadowOpacity: 0.3,
-    shadowRadius: 6,
-    elevation: 8,
-    borderWidth: 2,
-    borderColor: 'rgba(255, 255, 255, 0.2)',
-  },
   buttonText: {
     fontSize: 20,
     fontWeight: '800',
@@ -893,6 +1253,43 @@ const styles = StyleSheet.create({
     flex: 1,
     marginVertical: 30,
   },
+  profileChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 4,
+    paddingRight: 12,
+    paddingVertical: 4,
+    marginBottom: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  profileChipText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '700',
+    color: 'white',
+  },
+  languagePicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  languageButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  languageButtonActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    borderColor: 'white',
+  },
+  languageButtonText: {
+    fontSize: 12,
+    color: 'white',
+  },
   levelSelector: {
     alignItems: 'center',
     marginTop: 20,
@@ -934,6 +1331,12 @@ const styles = StyleSheet.create({
     color: 'white',
     textAlign: 'center',
   },
+  levelBestText: {
+    fontSize: 10,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 4,
+    textAlign: 'center',
+  },
   levelButtonLocked: {
     backgroundColor: 'rgba(100, 100, 100, 0.3)',
     borderColor: 'rgba(150, 150, 150, 0.3)',
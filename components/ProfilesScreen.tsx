@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from 'react-native';
+import { ColorName, GAME_COLORS } from '../types/GameTypes';
+import { Locale } from '../types/LocaleTypes';
+import { Palette } from '../types/PaletteTypes';
+import { PlayerProfile } from '../types/ProfileTypes';
+import { Translate } from '../data/Locales';
+import { MAX_PROFILES, MAX_PROFILE_NAME_LENGTH } from '../storage/ProfileStorage';
+
+interface ProfilesScreenProps {
+  profiles: PlayerProfile[];
+  activeId: string;
+  locale: Locale;
+  t: Translate;
+  palette: Palette;
+  onSwitch: (profileId: string) => void;
+  onCreate: (name: string, avatarColor: ColorName) => void;
+  onReset: (profileId: string) => void;
+  onDelete: (profileId: string) => void;
+  onExit: () => void;
+}
+
+interface ProfileAvatarProps {
+  profile: PlayerProfile;
+  name: string;
+  palette: Palette;
+  size?: number;
+}
+
+type PendingAction = { kind: 'reset' | 'delete'; profileId: string };
+
+const AVATAR_COLORS = Object.keys(GAME_COLORS) as ColorName[];
+
+export const getProfileName = (profiles: PlayerProfile[], profile: PlayerProfile, t: Translate) =>
+  profile.name || t('player', { player: profiles.indexOf(profile) + 1 });
+
+// Circle in the profile's color with the first letter of its name
+export const ProfileAvatar: React.FC<ProfileAvatarProps> = ({ profile, name, palette, size = 36 }) => (
+  <View
+    style={[
+      styles.avatar,
+      { width: size, height: size, borderRadius: size / 2, backgroundColor: palette.colors[profile.avatarColor] },
+    ]}
+  >
+    <Text style={[styles.avatarText, { fontSize: size * 0.45 }]}>{name.charAt(0).toUpperCase()}</Text>
+  </View>
+);
+
+// Everyone who plays on this device. Reset and delete ask for a second tap before doing anything.
+const ProfilesScreen: React.FC<ProfilesScreenProps> = ({
+  profiles,
+  activeId,
+  locale,
+  t,
+  palette,
+  onSwitch,
+  onCreate,
+  onReset,
+  onDelete,
+  onExit,
+}) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<ColorName>(AVATAR_COLORS[0]);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const isFull = profiles.length >= MAX_PROFILES;
+
+  const confirm = (action: PendingAction, run: (profileId: string) => void) => {
+    if (pending?.kind === action.kind && pending.profileId === action.profileId) {
+      setPending(null);
+      run(action.profileId);
+    } else {
+      setPending(action);
+    }
+  };
+
+  const addProfile = () => {
+    onCreate(newName, newColor);
+    setNewName('');
+  };
+
+  const renderAction = (kind: PendingAction['kind'], profileId: string, run: (id: string) => void) => {
+    const isPending = pending?.kind === kind && pending.profileId === profileId;
+    return (
+      <TouchableOpacity
+        style={[styles.action, isPending && styles.actionPending]}
+        onPress={() => confirm({ kind, profileId }, run)}
+        accessibilityRole="button"
+      >
+        <Text style={styles.actionText}>
+          {isPending ? t('confirmAgain') : t(kind === 'reset' ? 'resetProfile' : 'deleteProfile')}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onExit} accessibilityRole="button" accessibilityLabel={t('homeLabel')}>
+          <Text style={styles.icon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('profiles')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+      <ScrollView contentContainerStyle={styles.content}>
+        {profiles.map((profile) => {
+          const name = getProfileName(profiles, profile, t);
+          const isActive = profile.id === activeId;
+          return (
+            <View key={profile.id} style={[styles.profile, isActive && styles.profileActive]}>
+              <TouchableOpacity
+                style={styles.profileMain}
+                onPress={() => onSwitch(profile.id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isActive }}
+              >
+                <ProfileAvatar profile={profile} name={name} palette={palette} />
+                <View style={styles.profileText}>
+                  <Text style={styles.profileName}>{name}</Text>
+                  {isActive && <Text style={styles.profileStatus}>{t('activeProfile')}</Text>}
+                </View>
+              </TouchableOpacity>
+              <View style={styles.actions}>
+                {renderAction('reset', profile.id, onReset)}
+                {profiles.length > 1 && renderAction('delete', profile.id, onDelete)}
+              </View>
+            </View>
+          );
+        })}
+
+        <View style={styles.addSection}>
+          {isFull ? (
+            <Text style={styles.infoText}>{t('profileLimit', { count: MAX_PROFILES })}</Text>
+          ) : (
+            <>
+              <TextInput
+                style={styles.nameInput}
+                value={newName}
+                onChangeText={setNewName}
+                placeholder={t('profileName')}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                accessibilityLabel={t('profileName')}
+              />
+              <Text style={styles.infoText}>{t('avatarColor')}</Text>
+              <View style={styles.colorRow}>
+                {AVATAR_COLORS.map((color) => (
+                  <TouchableOpacity
+                    key={color}
+                    style={[
+                      styles.colorOption,
+                      { backgroundColor: palette.colors[color] },
+                      color === newColor && styles.colorOptionActive,
+                    ]}
+                    onPress={() => setNewColor(color)}
+                    accessibilityRole="button"
+                    accessibilityLabel={locale.colors[color]}
+                    accessibilityState={{ selected: color === newColor }}
+                  />
+                ))}
+              </View>
+              <TouchableOpacity style={styles.action} onPress={addProfile} accessibilityRole="button">
+                <Text style={styles.actionText}>{t('addProfile')}</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    height: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  icon: {
+    fontSize: 24,
+  },
+  content: {
+    paddingTop: 10,
+    paddingBottom: 30,
+  },
+  profile: {
+    padding: 12,
+    marginBottom: 10,
+    borderRadius: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  profileActive: {
+    borderColor: 'white',
+  },
+  profileMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: 'white',
+  },
+  profileStatus: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 2,
+  },
+  avatar: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  avatarText: {
+    color: 'white',
+    fontWeight: '900',
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowRadius: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  action: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 6,
+    borderRadius: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  actionPending: {
+    backgroundColor: 'rgba(255, 82, 82, 0.6)',
+  },
+  actionText: {
+    color: 'white',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  addSection: {
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  nameInput: {
+    alignSelf: 'stretch',
+    padding: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    color: '#1e3c72',
+    fontSize: 14,
+  },
+  infoText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    margin: 4,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  colorOptionActive: {
+    borderWidth: 3,
+    borderColor: 'white',
+  },
+});
+
+export default ProfilesScreen;
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet, Animated, Easing } from 'react-native';
+import { Translate } from '../data/Locales';
+
+interface PromptTimerBarProps {
+  promptStartTime: number; // ms timestamp, can be ahead of now while the first color is coming up
+  promptTimeLimit: number; // in seconds
+  isRunning: boolean;
+  t: Translate;
+}
+
+// Deadline for the color being asked, shrinking from full to empty. It runs on its own
+// clock between ticks and starts over whenever a new color is asked or the game resumes.
+const PromptTimerBar: React.FC<PromptTimerBarProps> = ({ promptStartTime, promptTimeLimit, isRunning, t }) => {
+  const fill = useRef(new Animated.Value(1)).current;
+
+  useEffect(() => {
+    const limitMs = promptTimeLimit * 1000;
+    const now = Date.now();
+    const elapsedMs = Math.max(0, now - promptStartTime);
+    fill.setValue(Math.max(0, 1 - elapsedMs / limitMs));
+    if (!isRunning) return;
+
+    const animation = Animated.sequence([
+      Animated.delay(Math.max(0, promptStartTime - now)),
+      Animated.timing(fill, {
+        toValue: 0,
+        duration: Math.max(0, limitMs - elapsedMs),
+        easing: Easing.linear,
+        useNativeDriver: false,
+      }),
+    ]);
+    animation.start();
+    return () => animation.stop();
+  }, [promptStartTime, promptTimeLimit, isRunning]);
+
+  return (
+    <View style={styles.track} accessible accessibilityRole="progressbar" accessibilityLabel={t('promptTimerLabel')}>
+      <Animated.View
+        style={[
+          styles.fill,
+          {
+            width: fill.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] }),
+            backgroundColor: fill.interpolate({
+              inputRange: [0, 0.3, 1],
+              outputRange: ['#FF5252', '#FFD54F', '#4CAF50'],
+            }),
+          },
+        ]}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    height: 8,
+    marginHorizontal: 30,
+    marginBottom: 12,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+});
+
+export default PromptTimerBar;
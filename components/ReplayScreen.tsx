@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { Locale } from '../types/LocaleTypes';
+import { Palette } from '../types/PaletteTypes';
+import { Replay } from '../types/ReplayTypes';
+import { Translate } from '../data/Locales';
+import { isLevelUnchanged, parseReplay, serializeReplay } from '../engine/Replay';
+import { getActiveLevel } from '../engine/GameEngine';
+import useReplayPlayback from '../hooks/useReplayPlayback';
+import ColorGrid from './ColorGrid';
+
+interface ReplayScreenProps {
+  replay: Replay | null; // most recent recording, if any
+  locale: Locale;
+  t: Translate;
+  palette: Palette;
+  showPatterns: boolean;
+  onExit: () => void;
+}
+
+const GRID = { width: 275, height: 240 };
+const SPEEDS = [1, 2, 4];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Watch a recorded level again, copy it out for a bug report, or load one that was pasted in
+const ReplayScreen: React.FC<ReplayScreenProps> = ({ replay: recorded, locale, t, palette, showPatterns, onExit }) => {
+  const [replay, setReplay] = useState<Replay | null>(recorded);
+  const [importText, setImportText] = useState('');
+  const [isImportInvalid, setImportInvalid] = useState(false);
+  const [isCopied, setCopied] = useState(false);
+  const playback = useReplayPlayback(replay);
+  const state = playback.frame?.state;
+
+  const copyReplay = async () => {
+    if (!replay) return;
+    try {
+      await Clipboard.setStringAsync(serializeReplay(replay));
+      setCopied(true);
+    } catch (error) {
+      console.log('Clipboard error:', error);
+    }
+  };
+
+  const loadReplay = () => {
+    const parsed = parseReplay(importText.trim());
+    setImportInvalid(parsed === null);
+    if (!parsed) return;
+    setReplay(parsed);
+    setImportText('');
+    setCopied(false);
+  };
+
+  const getReplayName = (shown: Replay) => {
+    switch (shown.mode) {
+      case 'endless':
+        return t('endless');
+      case 'daily':
+        return t('dailyTitle', { date: shown.challengeDate });
+      case 'practice':
+        return t('practiceTitle', { level: shown.levelId });
+      case 'adaptive':
+        return t('adaptive');
+      default:
+        return t('level', { level: shown.levelId });
+    }
+  };
+
+  // What happened with the most recent answer up to this point of the replay
+  const renderLastAnswer = () => {
+    const record = state?.promptLog[state.promptLog.length - 1];
+    if (!record) return <Text style={styles.eventText}> </Text>;
+
+    const spoken = locale.colors[record.spokenColor];
+    if (record.isNoGo) {
+      return (
+        <Text style={styles.eventText}>
+          {record.tappedIndex === null
+            ? t('replayHeld')
+            : t('replayStopTapped', { position: record.tappedIndex + 1 })}
+        </Text>
+      );
+    }
+    return (
+      <Text style={styles.eventText}>
+        {record.tappedIndex === null || record.tappedColor === null
+          ? t('replayMissed', { spoken })
+          : t('replayTapped', {
+            mark: record.isCorrect ? '✅' : '❌',
+            position: record.tappedIndex + 1,
+            tapped: locale.colors[record.tappedColor],
+            spoken,
+          })}
+      </Text>
+    );
+  };
+
+  const renderPlayback = (shown: Replay) => {
+    if (!state) return null;
+    const asked = state.colorsToClick[state.currentColorIndex];
+    const askedText = state.noGoPrompts[state.currentColorIndex] ? t('noGoWord') : asked && locale.colors[asked];
+    const rule = state.promptRules[state.currentColorIndex];
+    const isRuleShown = getActiveLevel(state)?.ruleSwitch && rule !== undefined;
+    const lastInput = playback.frame?.input;
+    const isInLevel = state.gameStatus === 'playing' || state.gameStatus === 'paused';
+
+    return (
+      <>
+        <Text style={styles.title} accessibilityRole="header">{getReplayName(shown)}</Text>
+        {!isLevelUnchanged(shown) && <Text style={styles.warning}>{t('replayLevelChanged')}</Text>}
+        <View style={styles.statusRow}>
+          <Text style={styles.statusText}>
+            {t('replayTime', { time: formatSeconds(playback.clock), total: formatSeconds(playback.endAt) })}
+          </Text>
+          <Text style={styles.statusText}>{'♥'.repeat(Math.max(0, state.lives))}</Text>
+          <Text style={styles.statusText}>{t('score', { score: state.score })}</Text>
+        </View>
+        <Text style={styles.askedText}>
+          {isInLevel && askedText
+            ? t(isRuleShown ? 'replayAskedRule' : 'replayAsked', {
+              color: askedText.toUpperCase(),
+              rule: rule === 'pick' ? t('rulePickCue') : t('ruleAvoidCue'),
+            })
+            : ' '}
+        </Text>
+        {renderLastAnswer()}
+        <View style={styles.gridArea}>
+          <ColorGrid
+            colors={state.visualColors}
+            colorNames={locale.colors}
+            palette={palette}
+            showPatterns={showPatterns}
+            width={GRID.width}
+            height={GRID.height}
+            disabled
+            focusedTile={lastInput?.type === 'CLICK_COLOR' ? lastInput.tileIndex : null}
+            t={t}
+            onTap={() => undefined}
+          />
+        </View>
+        {!playback.isPlaying && playback.clock >= playback.endAt && !playback.matchesRecording && (
+          <Text style={styles.warning}>{t('replayMismatch')}</Text>
+        )}
+        <View style={styles.controls}>
+          <TouchableOpacity style={styles.control} onPress={playback.isPlaying ? playback.pause : playback.play}>
+            <Text style={styles.controlText}>{playback.isPlaying ? t('replayPause') : t('replayPlay')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.control} onPress={playback.step}>
+            <Text style={styles.controlText}>{t('replayStep')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.control} onPress={playback.restart}>
+            <Text style={styles.controlText}>{t('replayRestart')}</Text>
+          </TouchableOpacity>
+          {SPEEDS.map((speed) => (
+            <TouchableOpacity
+              key={speed}
+              style={[styles.control, speed === playback.speed && styles.controlActive]}
+              onPress={() => playback.setSpeed(speed)}
+            >
+              <Text style={styles.controlText}>{t('replaySpeed', { speed })}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity onPress={copyReplay}>
+          <Text style={styles.link}>{isCopied ? t('copied') : t('exportReplay')}</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onExit} accessibilityRole="button" accessibilityLabel={t('homeLabel')}>
+          <Text style={styles.icon}>🏠</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('replays')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+      <ScrollView contentContainerStyle={styles.content}>
+        {replay ? renderPlayback(replay) : <Text style={styles.infoText}>{t('noReplay')}</Text>}
+
+        <View style={styles.importSection}>
+          <Text style={styles.infoText}>{t('importReplayHint')}</Text>
+          <TextInput
+            style={styles.importInput}
+            value={importText}
+            onChangeText={(text) => {
+              setImportText(text);
+              setImportInvalid(false);
+            }}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessibilityLabel={t('importReplayHint')}
+          />
+          {isImportInvalid && <Text style={styles.warning}>{t('invalidReplay')}</Text>}
+          <TouchableOpacity style={styles.control} onPress={loadReplay} disabled={importText.trim() === ''}>
+            <Text style={styles.controlText}>{t('loadReplay')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    height: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: 'white',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  icon: {
+    fontSize: 24,
+  },
+  content: {
+    alignItems: 'center',
+    paddingBottom: 30,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: 'white',
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+  warning: {
+    fontSize: 12,
+    color: '#FFD54F',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginBottom: 8,
+  },
+  statusText: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '600',
+  },
+  askedText: {
+    fontSize: 20,
+    fontWeight: '900',
+    color: 'white',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  eventText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  gridArea: {
+    height: GRID.height,
+    marginBottom: 10,
+  },
+  controls: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  control: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    margin: 4,
+    borderRadius: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  controlActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  controlText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  link: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    textDecorationLine: 'underline',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  infoText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+  importSection: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  importInput: {
+    alignSelf: 'stretch',
+    height: 80,
+    padding: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    color: '#1e3c72',
+    fontSize: 11,
+    textAlignVertical: 'top',
+  },
+});
+
+export default ReplayScreen;
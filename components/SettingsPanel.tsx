@@ -0,0 +1,181 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ColorName } from '../types/GameTypes';
+import { PaletteId } from '../types/PaletteTypes';
+import { PlayerSettings } from '../types/SettingsTypes';
+import { PALETTES, COLOR_GLYPHS } from '../data/Palettes';
+import { Translate } from '../data/Locales';
+import { VOLUME_STEPS } from '../data/SoundClips';
+import ColorGlyph from './ColorGlyph';
+
+interface SettingsPanelProps {
+  settings: PlayerSettings;
+  updateSettings: (changes: Partial<PlayerSettings>) => void;
+  t: Translate;
+  onClose: () => void;
+}
+
+const PREVIEW_COLORS = Object.keys(COLOR_GLYPHS) as ColorName[];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, updateSettings, t, onClose }) => {
+  const activePalette = PALETTES[settings.palette];
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>{t('settings')}</Text>
+
+      <Text style={styles.sectionTitle}>{t('palette')}</Text>
+      <View style={styles.optionRow}>
+        {(Object.keys(PALETTES) as PaletteId[]).map((id) => (
+          <TouchableOpacity
+            key={id}
+            style={[styles.option, id === settings.palette && styles.optionActive]}
+            onPress={() => updateSettings({ palette: id })}
+          >
+            <Text style={styles.optionText}>{t(PALETTES[id].labelKey)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('showPatterns')}</Text>
+      <View style={styles.optionRow}>
+        {[true, false].map((value) => (
+          <TouchableOpacity
+            key={String(value)}
+            style={[styles.option, value === settings.showPatterns && styles.optionActive]}
+            onPress={() => updateSettings({ showPatterns: value })}
+          >
+            <Text style={styles.optionText}>{value ? t('on') : t('off')}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('sound')}</Text>
+      <View style={styles.optionRow}>
+        {[false, true].map((isMuted) => (
+          <TouchableOpacity
+            key={String(isMuted)}
+            style={[styles.option, isMuted === settings.isMuted && styles.optionActive]}
+            onPress={() => updateSettings({ isMuted })}
+          >
+            <Text style={styles.optionText}>{isMuted ? t('off') : t('on')}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {settings.isMuted && <Text style={styles.hint}>{t('mutedHint')}</Text>}
+      <Text style={styles.sectionTitle}>{t('volume')}</Text>
+      <View style={styles.optionRow}>
+        {VOLUME_STEPS.map((volume) => (
+          <TouchableOpacity
+            key={volume}
+            style={[styles.option, volume === settings.volume && styles.optionActive]}
+            onPress={() => updateSettings({ volume })}
+          >
+            <Text style={styles.optionText}>{`${Math.round(volume * 100)}%`}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Preview of the tiles with the current choices */}
+      <View style={styles.preview}>
+        {PREVIEW_COLORS.map((colorName) => (
+          <View
+            key={colorName}
+            style={[
+              styles.previewTile,
+              { backgroundColor: activePalette.colors[colorName], borderColor: activePalette.borderColor },
+            ]}
+          >
+            {settings.showPatterns && <ColorGlyph shape={COLOR_GLYPHS[colorName]} size={28} />}
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+        <Text style={styles.doneButtonText}>{t('done')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    alignItems: 'center',
+    marginBottom: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 20,
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  title: {
+    fontSize: 20,
+    color: 'white',
+    fontWeight: '600',
+    marginBottom: 10,
+    textShadowColor: 'rgba(0, 0, 0, 0.3)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  option: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    margin: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  optionActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+    borderColor: 'white',
+  },
+  optionText: {
+    fontSize: 12,
+    color: 'white',
+  },
+  hint: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textAlign: 'center',
+    marginTop: 5,
+  },
+  preview: {
+    flexDirection: 'row',
+    marginTop: 15,
+  },
+  previewTile: {
+    width: 44,
+    height: 44,
+    margin: 4,
+    borderRadius: 10,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  doneButton: {
+    marginTop: 15,
+    backgroundColor: '#4CAF50',
+    paddingHorizontal: 30,
+    paddingVertical: 10,
+    borderRadius: 25,
+  },
+  doneButtonText: {
+    fontSize: 16,
+    fontWeight: '800',
+    color: 'white',
+    letterSpacing: 1,
+  },
+});
+
+export default SettingsPanel;
@@ -0,0 +1,465 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { PromptMode } from '../types/GameTypes';
+import { Locale, UiStringKey } from '../types/LocaleTypes';
+import { Palette } from '../types/PaletteTypes';
+import { PlayerSettings } from '../types/SettingsTypes';
+import { VersusLayout } from '../types/VersusTypes';
+import { GAME_LEVELS } from '../data/GameLevels';
+import { Translate } from '../data/Locales';
+import { STARTING_LIVES } from '../engine/GameEngine';
+import { VERSUS_ROUNDS, getVersusWinner, isVersusLevel } from '../engine/VersusEngine';
+import useVersusLogic from '../hooks/useVersusLogic';
+import ColorGrid from './ColorGrid';
+
+interface VersusScreenProps {
+  locale: Locale;
+  t: Translate;
+  palette: Palette;
+  showPatterns: boolean;
+  unlockedLevels: number[];
+  preferredPromptMode: PromptMode;
+  audio: Pick<PlayerSettings, 'volume' | 'isMuted'>;
+  onExit: () => void;
+}
+
+const HOT_SEAT_GRID = { width: 275, height: 280 };
+const SPLIT_GRID = { width: 235, height: 190 };
+
+const LAYOUT_LABELS: Record<VersusLayout, UiStringKey> = {
+  hotSeat: 'hotSeat',
+  splitScreen: 'splitScreen',
+};
+
+const VersusScreen: React.FC<VersusScreenProps> = ({
+  locale,
+  t,
+  palette,
+  showPatterns,
+  unlockedLevels,
+  preferredPromptMode,
+  audio,
+  onExit,
+}) => {
+  const { versusState, isPromptShown, startMatch, beginTurn, handleTap, pauseMatch, resumeMatch, rematch } =
+    useVersusLogic(locale, audio);
+  const [layout, setLayout] = useState<VersusLayout>('hotSeat');
+  const versusLevels = GAME_LEVELS.filter(level => isVersusLevel(level) && unlockedLevels.includes(level.id));
+  const [levelId, setLevelId] = useState(versusLevels[0]?.id ?? GAME_LEVELS[0].id);
+  const { players, status } = versusState;
+
+  const renderHearts = (lives: number) => (
+    <View
+      style={styles.hearts}
+      accessible
+      accessibilityLabel={t('livesLabel', { lives: Math.max(0, lives), max: STARTING_LIVES })}
+    >
+      {Array.from({ length: STARTING_LIVES }, (_, index) => index + 1).map((life) => (
+        <Text key={life} style={[styles.heart, life > lives && styles.heartLost]}>
+          {life <= lives ? '♥' : '♡'}
+        </Text>
+      ))}
+    </View>
+  );
+
+  const renderPlayerBar = (player: number) => {
+    const isActive = versusState.layout === 'splitScreen' || player === versusState.activePlayer;
+    return (
+      <View key={player} style={[styles.playerBar, isActive && styles.playerBarActive]}>
+        <Text style={styles.playerName}>{t('player', { player: player + 1 })}</Text>
+        {renderHearts(players[player].lives)}
+        <Text style={styles.playerScore}>{t('score', { score: players[player].score })}</Text>
+      </View>
+    );
+  };
+
+  const renderPromptWord = () => {
+    if (versusState.promptMode === 'speech') return null;
+    const word = versusState.colorsToClick[versusState.currentColorIndex];
+    const ink = versusState.promptInk ? palette.colors[versusState.promptInk] : '#1e3c72';
+    return (
+      <View style={styles.promptWordContainer}>
+        <Text style={[styles.promptWord, { color: ink }]} accessibilityLiveRegion="assertive">
+          {isPromptShown && word ? locale.colors[word].toUpperCase() : ' '}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderSetup = () => (
+    <View style={styles.panel}>
+      <Text style={styles.title} accessibilityRole="header">{t('versusTitle')}</Text>
+      <View style={styles.optionRow}>
+        {(Object.keys(LAYOUT_LABELS) as VersusLayout[]).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.option, option === layout && styles.optionActive]}
+            onPress={() => setLayout(option)}
+          >
+            <Text style={styles.optionText}>{t(LAYOUT_LABELS[option])}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.infoText}>
+        {layout === 'hotSeat' ? t('hotSeatInfo', { rounds: VERSUS_ROUNDS }) : t('splitScreenInfo')}
+      </Text>
+      <View style={styles.optionRow}>
+        {versusLevels.map((level) => (
+          <TouchableOpacity
+            key={level.id}
+            style={[styles.option, level.id === levelId && styles.optionActive]}
+            onPress={() => setLevelId(level.id)}
+          >
+            <Text style={styles.optionText}>{t('level', { level: level.id })}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TouchableOpacity style={styles.primaryButton} onPress={() => startMatch(layout, levelId, preferredPromptMode)}>
+        <Text style={styles.buttonText}>{t('startMatch')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onExit}>
+        <Text style={styles.link}>{t('backToHome')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTurnIntro = () => {
+    const isHotSeat = versusState.layout === 'hotSeat';
+    const player = versusState.activePlayer + 1;
+    return (
+      <View style={styles.panel}>
+        {isHotSeat && <Text style={styles.infoText}>{t('roundOf', { round: versusState.round, rounds: VERSUS_ROUNDS })}</Text>}
+        <Text style={styles.title} accessibilityRole="header">
+          {isHotSeat ? t('playerTurn', { player }) : t('versusTitle')}
+        </Text>
+        <Text style={styles.infoText}>{isHotSeat ? t('passDevice', { player }) : t('getReady')}</Text>
+        <View style={styles.scoreboard}>{players.map((_, index) => renderPlayerBar(index))}</View>
+        <TouchableOpacity style={styles.primaryButton} onPress={beginTurn}>
+          <Text style={styles.buttonText}>{t('go')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderHotSeat = () => (
+    <View style={styles.hotSeat}>
+      <View style={styles.scoreboard}>{players.map((_, index) => renderPlayerBar(index))}</View>
+      <Text style={styles.statusText} accessibilityRole="timer">
+        {t('turnStatus', { player: versusState.activePlayer + 1, seconds: versusState.timeRemaining })}
+      </Text>
+      {renderPromptWord()}
+      <ColorGrid
+        colors={versusState.visualColors}
+        colorNames={locale.colors}
+        palette={palette}
+        showPatterns={showPatterns}
+        width={HOT_SEAT_GRID.width}
+        height={HOT_SEAT_GRID.height}
+        disabled={status !== 'playing'}
+        t={t}
+        onTap={(tileIndex) => handleTap(versusState.activePlayer, tileIndex)}
+      />
+    </View>
+  );
+
+  // One half per player; the top half is turned around for the player sitting opposite
+  const renderHalf = (player: number) => {
+    const hasAnswered = versusState.answers[player] !== null;
+    return (
+      <View style={[styles.half, player === 1 && styles.halfFlipped]}>
+        {renderPlayerBar(player)}
+        {renderPromptWord()}
+        <View style={hasAnswered && styles.halfAnswered}>
+          <ColorGrid
+            colors={versusState.visualColors}
+            colorNames={locale.colors}
+            palette={palette}
+            showPatterns={showPatterns}
+            width={SPLIT_GRID.width}
+            height={SPLIT_GRID.height}
+            disabled={hasAnswered || status !== 'playing'}
+            t={t}
+            onTap={(tileIndex) => handleTap(player, tileIndex)}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderSplitScreen = () => (
+    <View style={styles.split}>
+      {renderHalf(1)}
+      <View style={styles.splitMiddle}>
+        <Text style={styles.statusText} accessibilityRole="timer">{versusState.timeRemaining}s</Text>
+        <TouchableOpacity onPress={pauseMatch} accessibilityRole="button" accessibilityLabel={t('pauseLabel')}>
+          <Text style={styles.icon}>⏸</Text>
+        </TouchableOpacity>
+      </View>
+      {renderHalf(0)}
+    </View>
+  );
+
+  const renderPaused = () => (
+    <View style={styles.panel}>
+      <Text style={styles.title} accessibilityRole="header">{t('paused')}</Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={resumeMatch}>
+        <Text style={styles.buttonText}>{t('resume')}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onExit}>
+        <Text style={styles.link}>{t('backToHome')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderResult = () => {
+    const winner = getVersusWinner(versusState);
+    return (
+      <View style={styles.panel} accessibilityLiveRegion="polite">
+        <Text style={styles.title} accessibilityRole="header">
+          {winner === null ? t('draw') : t('playerWins', { player: winner + 1 })}
+        </Text>
+        <View style={styles.resultColumns}>
+          {players.map((player, index) => (
+            <View key={index} style={[styles.resultColumn, index === winner && styles.resultColumnWinner]}>
+              <Text style={styles.playerName}>{t('player', { player: index + 1 })}</Text>
+              <Text style={styles.resultScore}>{player.score}</Text>
+              <Text style={styles.resultText}>{t('livesLeft', { lives: Math.max(0, player.lives) })}</Text>
+              <Text style={styles.resultText}>{t('correctAnswers', { count: player.correctCount })}</Text>
+              <Text style={styles.resultText}>{t('mistakes', { count: player.mistakeCount })}</Text>
+              {player.correctCount > 0 && (
+                <Text style={styles.resultText}>
+                  {t('averageReaction', { time: `${(player.reactionTotalMs / player.correctCount / 1000).toFixed(2)}s` })}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.primaryButton} onPress={rematch}>
+          <Text style={styles.buttonText}>{t('rematch')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onExit}>
+          <Text style={styles.link}>{t('backToHome')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderStatus = () => {
+    switch (status) {
+      case 'setup':
+        return renderSetup();
+      case 'turnIntro':
+        return renderTurnIntro();
+      case 'playing':
+        return versusState.layout === 'hotSeat' ? renderHotSeat() : renderSplitScreen();
+      case 'paused':
+        return renderPaused();
+      case 'result':
+        return renderResult();
+      default:
+        return null;
+    }
+  };
+
+  const isSplitPlaying = status === 'playing' && versusState.layout === 'splitScreen';
+  return (
+    <View style={styles.container}>
+      {!isSplitPlaying && (
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onExit} accessibilityRole="button" accessibilityLabel={t('homeLabel')}>
+            <Text style={styles.icon}>🏠</Text>
+          </TouchableOpacity>
+          {status === 'playing' && (
+            <TouchableOpacity onPress={pauseMatch} accessibilityRole="button" accessibilityLabel={t('pauseLabel')}>
+              <Text style={styles.icon}>⏸</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      {renderStatus()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    height: 40,
+  },
+  icon: {
+    fontSize: 24,
+  },
+  panel: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: 'white',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  infoText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginBottom: 15,
+    lineHeight: 20,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 15,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    margin: 4,
+    borderRadius: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  optionActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  optionText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    backgroundColor: '#4CAF50',
+    paddingHorizontal: 40,
+    paddingVertical: 15,
+    borderRadius: 25,
+    marginVertical: 15,
+  },
+  buttonText: {
+    fontSize: 20,
+    fontWeight: '800',
+    color: 'white',
+    textAlign: 'center',
+  },
+  link: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    textDecorationLine: 'underline',
+    fontSize: 14,
+  },
+  scoreboard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginBottom: 10,
+  },
+  playerBar: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 8,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  playerBarActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  playerName: {
+    color: 'white',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  playerScore: {
+    color: 'white',
+    fontSize: 14,
+  },
+  hearts: {
+    flexDirection: 'row',
+  },
+  heart: {
+    fontSize: 18,
+    color: '#FF6B6B',
+    marginHorizontal: 2,
+  },
+  heartLost: {
+    color: '#666666',
+    opacity: 0.5,
+  },
+  statusText: {
+    fontSize: 16,
+    color: 'white',
+    textAlign: 'center',
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  promptWordContainer: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  promptWord: {
+    fontSize: 32,
+    fontWeight: '900',
+    letterSpacing: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    paddingHorizontal: 20,
+    paddingVertical: 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  hotSeat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  split: {
+    flex: 1,
+    justifyContent: 'space-between',
+  },
+  half: {
+    alignItems: 'center',
+  },
+  halfFlipped: {
+    transform: [{ rotate: '180deg' }],
+  },
+  halfAnswered: {
+    opacity: 0.4,
+  },
+  splitMiddle: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 20,
+  },
+  resultColumns: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+  },
+  resultColumn: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 12,
+    marginHorizontal: 4,
+    borderRadius: 15,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  resultColumnWinner: {
+    backgroundColor: 'rgba(76, 175, 80, 0.5)',
+  },
+  resultScore: {
+    fontSize: 32,
+    fontWeight: '900',
+    color: 'white',
+    marginVertical: 6,
+  },
+  resultText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.9)',
+    textAlign: 'center',
+    marginBottom: 2,
+  },
+});
+
+export default VersusScreen;
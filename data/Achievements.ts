@@ -0,0 +1,17 @@
+import { AchievementDefinition } from '../types/AchievementTypes';
+
+export const NO_DAMAGE_LEVELS = 3; // levels in a row without losing a life
+export const QUICK_AVERAGE_MS = 1000;
+export const DAILY_STREAK_GOAL = 7;
+export const FULL_LIVES_LEVEL_ID = 6;
+
+// Gallery order
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'firstClear', icon: '🎉', name: 'badgeFirstClear', description: 'badgeFirstClearInfo' },
+  { id: 'noDamageRun', icon: '🛡️', name: 'badgeNoDamage', description: 'badgeNoDamageInfo', params: { count: NO_DAMAGE_LEVELS } },
+  { id: 'quickReflexes', icon: '⚡', name: 'badgeQuick', description: 'badgeQuickInfo' },
+  { id: 'dailyWeek', icon: '📅', name: 'badgeDailyWeek', description: 'badgeDailyWeekInfo', params: { count: DAILY_STREAK_GOAL } },
+  { id: 'levelSixFullLives', icon: '👑', name: 'badgeFullLives', description: 'badgeFullLivesInfo' },
+];
+
+export const getAchievement = (id: string) => ACHIEVEMENTS.find(achievement => achievement.id === id);
@@ -0,0 +1,73 @@
+import { AdaptiveConfig, GameLevel, PlayerModel } from '../types/GameTypes';
+import { FAST_COMBO, QUICK_REACTION_TIERS } from './ScoringRules';
+
+export const ADAPTIVE_LEVEL_ID = -2;
+
+export const ADAPTIVE_MODE: AdaptiveConfig = {
+  sequenceLength: 30,
+  targetSuccessRate: 0.8,
+  tolerance: 0.1,
+  windowSize: 5,
+  reactionSmoothing: 0.3,
+  startPromptTime: 3,
+  minPromptTime: 0.8,
+  maxPromptTime: 4,
+  promptTimeStep: 0.5,
+  reactionHeadroom: 1.5,
+  stages: [
+    { colorPool: ['blue', 'green'], gridSize: 2, decoys: null },
+    { colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: null },
+    { colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: { forbiddenTiles: 2, safeColors: 2, reshuffleMs: null } },
+    { colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'], gridSize: 6, decoys: null },
+    { colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'], gridSize: 6, decoys: { forbiddenTiles: 3, safeColors: 3, reshuffleMs: null } },
+    { colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange', 'pink', 'cyan'], gridSize: 9, decoys: { forbiddenTiles: 3, safeColors: 6, reshuffleMs: null } },
+  ],
+};
+
+export const createPlayerModel = (): PlayerModel => ({
+  recentResults: [],
+  averageReactionMs: null,
+  promptTime: ADAPTIVE_MODE.startPromptTime,
+  stageIndex: 0,
+});
+
+// A model from saved or pasted data: mistyped fields start over, the pace is kept within the
+// config's limits and a stage that no longer exists falls back to the hardest one left
+export const readPlayerModel = (stored: unknown): PlayerModel => {
+  const defaults = createPlayerModel();
+  const source = typeof stored === 'object' && stored !== null ? stored as Record<string, unknown> : {};
+  const promptTime = typeof source.promptTime === 'number' ? source.promptTime : defaults.promptTime;
+  const stageIndex = typeof source.stageIndex === 'number' ? source.stageIndex : defaults.stageIndex;
+
+  return {
+    promptTime: Math.min(ADAPTIVE_MODE.maxPromptTime, Math.max(ADAPTIVE_MODE.minPromptTime, promptTime)),
+    stageIndex: Math.min(ADAPTIVE_MODE.stages.length - 1, Math.max(0, Math.floor(stageIndex))),
+    averageReactionMs: typeof source.averageReactionMs === 'number' ? source.averageReactionMs : null,
+    recentResults: Array.isArray(source.recentResults)
+      ? source.recentResults.filter((result): result is boolean => typeof result === 'boolean').slice(-ADAPTIVE_MODE.windowSize)
+      : [],
+  };
+};
+
+// Level spec for the next adaptive prompt, straight from where the player model stands
+export const getAdaptiveLevel = (model: PlayerModel): GameLevel => {
+  const stage = ADAPTIVE_MODE.stages[Math.min(model.stageIndex, ADAPTIVE_MODE.stages.length - 1)];
+
+  return {
+    id: ADAPTIVE_LEVEL_ID,
+    name: "Adaptive",
+    description: "Pace, grid and decoys follow how you play, aiming for 8 answers right out of 10.",
+    timeLimit: 0,
+    promptTimeLimit: model.promptTime,
+    sequenceLength: ADAPTIVE_MODE.sequenceLength,
+    colorPool: stage.colorPool,
+    gridSize: stage.gridSize,
+    decoys: stage.decoys,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: true,
+    promptMode: null,
+    unlockRequirement: null,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO },
+  };
+};
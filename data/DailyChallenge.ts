@@ -0,0 +1,41 @@
+import { DecoyRule, GameLevel } from '../types/GameTypes';
+import { seedFromString } from '../engine/Random';
+import { FAST_COMBO, QUICK_REACTION_TIERS } from './ScoringRules';
+
+export const DAILY_LEVEL_ID = -1;
+
+export const DAILY_SEQUENCE_LENGTH = 15;
+export const DAILY_PROMPT_TIME = 2.5; // seconds to answer each color
+
+// One of these is picked per day so consecutive days do not all play alike
+const DAILY_SETUPS: { colorPool: GameLevel['colorPool']; gridSize: number; decoys: DecoyRule | null }[] = [
+  { colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: null },
+  { colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: { forbiddenTiles: 2, safeColors: 2, reshuffleMs: null } },
+  { colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'], gridSize: 6, decoys: null },
+  { colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'], gridSize: 9, decoys: { forbiddenTiles: 3, safeColors: 4, reshuffleMs: 1500 } },
+];
+
+// The run for a calendar date is seeded from the date alone, so everyone gets the same one
+export const getDailySeed = (dateKey: string) => seedFromString(`daily:${dateKey}`);
+
+export const getDailyLevel = (dateKey: string): GameLevel => {
+  const setup = DAILY_SETUPS[getDailySeed(dateKey) % DAILY_SETUPS.length];
+
+  return {
+    id: DAILY_LEVEL_ID,
+    name: "Daily Challenge",
+    description: "One run a day, the same for everyone. Wrong answers cost points, not the run.",
+    timeLimit: 0,
+    promptTimeLimit: DAILY_PROMPT_TIME,
+    sequenceLength: DAILY_SEQUENCE_LENGTH,
+    colorPool: setup.colorPool,
+    gridSize: setup.gridSize,
+    decoys: setup.decoys,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: true,
+    promptMode: null,
+    unlockRequirement: null,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO },
+  };
+};
@@ -0,0 +1,45 @@
+import { EndlessConfig, GameLevel } from '../types/GameTypes';
+import { FAST_COMBO, QUICK_REACTION_TIERS } from './ScoringRules';
+
+export const ENDLESS_LEVEL_ID = 0;
+
+export const ENDLESS_MODE: EndlessConfig = {
+  startPromptTime: 3,
+  minPromptTime: 0.8,
+  promptTimeStep: 0.05,
+  stages: [
+    { fromStreak: 0, colorPool: ['blue', 'green'], gridSize: 2, decoys: null },
+    { fromStreak: 10, colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: null },
+    { fromStreak: 25, colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: { forbiddenTiles: 2, safeColors: 2, reshuffleMs: null } },
+    { fromStreak: 40, colorPool: ['blue', 'green', 'yellow', 'red'], gridSize: 4, decoys: { forbiddenTiles: 3, safeColors: 1, reshuffleMs: 1200 } },
+    { fromStreak: 55, colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'], gridSize: 6, decoys: null },
+    { fromStreak: 75, colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange', 'pink', 'cyan'], gridSize: 9, decoys: { forbiddenTiles: 3, safeColors: 6, reshuffleMs: null } },
+  ],
+};
+
+// Level spec for the next endless prompt: tighter and busier as the streak grows
+export const getEndlessLevel = (streak: number): GameLevel => {
+  const stage = [...ENDLESS_MODE.stages].reverse().find(s => streak >= s.fromStreak) ?? ENDLESS_MODE.stages[0];
+  const promptTime = Math.max(
+    ENDLESS_MODE.minPromptTime,
+    ENDLESS_MODE.startPromptTime - streak * ENDLESS_MODE.promptTimeStep,
+  );
+
+  return {
+    id: ENDLESS_LEVEL_ID,
+    name: "Endless",
+    description: "Keep going until you run out of lives!",
+    timeLimit: 0,
+    promptTimeLimit: promptTime,
+    sequenceLength: 1,
+    colorPool: stage.colorPool,
+    gridSize: stage.gridSize,
+    decoys: stage.decoys,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: true,
+    promptMode: null,
+    unlockRequirement: null,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO },
+  };
+};
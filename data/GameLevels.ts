@@ -1,58 +1,221 @@
 import { GameLevel } from '../types/GameTypes';
+import { FAST_COMBO, QUICK_REACTION_TIERS } from './ScoringRules';
 
 export const GAME_LEVELS: GameLevel[] = [
   {
     id: 1,
     name: "Level 1 - Easy Start",
-    timeLimit: 40,
-    totalColors: 10,
-    availableColors: 2,
-    hasDuplicates: false,
-    description: "40 seconds, 2 colors, click the wrong one!"
+    description: "20 seconds, 2 colors, click the wrong one!",
+    timeLimit: 20,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green'],
+    gridSize: 2,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: true,
+    promptMode: null,
+    unlockRequirement: null,
+    scoring: null,
   },
   {
     id: 2,
-    name: "Level 2 - More Colors",
-    timeLimit: 40,
-    totalColors: 10,
-    availableColors: 4,
-    hasDuplicates: false,
-    description: "40 seconds, 4 colors, click the wrong one!"
+    name: "Level 2 - Speed Start",
+    description: "15 seconds, 2 colors, click the wrong one!",
+    timeLimit: 15,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green'],
+    gridSize: 2,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: true,
+    promptMode: null,
+    unlockRequirement: 1,
+    scoring: null,
   },
   {
     id: 3,
-    name: "Level 3 - Speed Challenge",
-    timeLimit: 30,
-    totalColors: 10,
-    availableColors: 2,
-    hasDuplicates: false,
-    description: "30 seconds, 2 colors, click the wrong one!"
+    name: "Level 3 - More Colors",
+    description: "20 seconds, 4 colors, click the wrong one!",
+    timeLimit: 20,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 2,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS },
   },
   {
     id: 4,
     name: "Level 4 - Full Speed",
-    timeLimit: 30,
-    totalColors: 10,
-    availableColors: 4,
-    hasDuplicates: false,
-    description: "30 seconds, 4 colors, click the wrong one!"
+    description: "15 seconds, 4 colors, click the wrong one!",
+    timeLimit: 15,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 3,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS },
   },
   {
     id: 5,
     name: "Level 5 - Duplicate Challenge",
-    timeLimit: 40,
-    totalColors: 10,
-    availableColors: 4,
-    hasDuplicates: true,
-    description: "40 seconds, 4 colors with duplicates, click the wrong one!"
+    description: "15 seconds, 4 colors with duplicates, click the wrong one!",
+    timeLimit: 15,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: { forbiddenTiles: 2, safeColors: 2, reshuffleMs: null },
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 4,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO, perfectBonus: 50 },
   },
   {
     id: 6,
     name: "Level 6 - Master Challenge",
-    timeLimit: 30,
-    totalColors: 10,
-    availableColors: 4,
-    hasDuplicates: true,
-    description: "30 seconds, 4 colors with duplicates, click the wrong one!"
+    description: "5 seconds, 3 decoy tiles that keep moving, click the wrong one!",
+    timeLimit: 5,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: { forbiddenTiles: 3, safeColors: 1, reshuffleMs: 1200 },
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 5,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO, perfectBonus: 50 },
+  },
+  {
+    id: 7,
+    name: "Level 7 - Stroop Challenge",
+    description: "20 seconds, read the word and ignore its ink, click the wrong one!",
+    timeLimit: 20,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: 'stroop',
+    unlockRequirement: 6,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO, perfectBonus: 50 },
+  },
+  {
+    id: 8,
+    name: "Level 8 - Rainbow Grid",
+    description: "25 seconds, 6 colors on a 3x3 grid, click the wrong one!",
+    timeLimit: 25,
+    promptTimeLimit: null,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'],
+    gridSize: 9,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 7,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO, perfectBonus: 50 },
+  },
+  {
+    id: 9,
+    name: "Level 9 - Split Second",
+    description: "1.5 seconds for every color, 4 colors, click the wrong one!",
+    timeLimit: 0,
+    promptTimeLimit: 1.5,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 8,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO, perfectBonus: 50 },
+  },
+  {
+    id: 10,
+    name: "Level 10 - Stop Signal",
+    description: "2 seconds for every color, tap nothing when you hear the stop tone!",
+    timeLimit: 0,
+    promptTimeLimit: 2,
+    sequenceLength: 10,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: null,
+    noGo: { chance: 0.3 },
+    ruleSwitch: null,
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 9,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, commissionPenalty: 20, omissionPenalty: 10 },
+  },
+  {
+    id: 11,
+    name: "Level 11 - Switch Up",
+    description: "Listen for the rule: on PICK tap the color, on AVOID tap any other!",
+    timeLimit: 20,
+    promptTimeLimit: null,
+    sequenceLength: 12,
+    colorPool: ['blue', 'green', 'yellow', 'red'],
+    gridSize: 4,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: { startRule: 'avoid', switchChance: 0.3, cue: 'voice' },
+    avoidRepeatedLayout: false,
+    promptMode: null,
+    unlockRequirement: 10,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS },
+  },
+  {
+    id: 12,
+    name: "Level 12 - Color Shift",
+    description: "2 seconds per color: on gold tap the color, on blue tap any other!",
+    timeLimit: 0,
+    promptTimeLimit: 2,
+    sequenceLength: 12,
+    colorPool: ['blue', 'green', 'yellow', 'red', 'purple', 'orange'],
+    gridSize: 6,
+    decoys: null,
+    noGo: null,
+    ruleSwitch: { startRule: 'avoid', switchChance: 0.35, cue: 'background' },
+    avoidRepeatedLayout: true,
+    promptMode: null,
+    unlockRequirement: 11,
+    scoring: { reactionTiers: QUICK_REACTION_TIERS, combo: FAST_COMBO },
   }
 ];
+
+export const getLevel = (id: number) => GAME_LEVELS.find(level => level.id === id);
+
+export const getNextLevel = (id: number) => {
+  const index = GAME_LEVELS.findIndex(level => level.id === id);
+  return index >= 0 ? GAME_LEVELS[index + 1] : undefined;
+};
+
+// Levels with no unlock requirement are open from the first launch
+export const INITIAL_UNLOCKED_LEVELS = GAME_LEVELS
+  .filter(level => level.unlockRequirement === null)
+  .map(level => level.id);
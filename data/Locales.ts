@@ -0,0 +1,804 @@
+import { Locale, LocaleCode, UiStringKey } from '../types/LocaleTypes';
+
+export const EN_STRINGS = {
+  title: "Don't Pick It!",
+  subtitle: "Train your brain to go against instinct.",
+  readyToPlay: "Ready to play?",
+  instructions: "You'll hear a color. Do NOT select it. If you do, you lose!",
+  promptSpeech: "🔊 Voice",
+  promptVisual: "👁️ Word",
+  promptStroop: "🎨 Stroop",
+  instructionsVisual: "You'll see a color word. Do NOT select that color, whatever its ink!",
+  startGame: "START GAME",
+  endlessMode: "♾️ ENDLESS MODE",
+  highScore: "High score: {score}",
+  chooseLevel: "Or choose a level:",
+  level: "Level {level}",
+  levelBest: "Best: {score}",
+  endless: "Endless",
+  levelStatus: "Level {level} - Time: {seconds}s",
+  endlessStatus: "Endless - Streak {streak} - Time: {seconds}s",
+  score: "Score: {score}",
+  paused: "Paused",
+  pausedInfo: "{name} - {seconds}s left. The color will be repeated when you resume.",
+  pausedInfoUntimed: "{name}. The color will be repeated when you resume.",
+  resume: "RESUME",
+  levelComplete: "Level {level} Complete!",
+  levelFailed: "Level {level} Failed!",
+  colorsFound: "✅ {count} colors found = +{points} pts",
+  timeSaved: "⏱️ +{count}s saved = +{points} pts",
+  reactionBonus: "⚡ {count} quick answers = +{points} pts",
+  comboBonus: "🔥 Combo of {count} = +{points} pts",
+  perfectBonus: "💎 Perfect level = +{points} pts",
+  comboStatus: "🔥 x{multiplier}",
+  winTotal: "🏆 TOTAL = +{points} pts",
+  wrongColor: "❌ Wrong color = –{points} pts",
+  lossTotal: "🔻 TOTAL = –{points} pts",
+  nextLevel: "Next Level",
+  retryLevel: "Retry Level",
+  backToHome: "Back to Home",
+  tapToContinue: "Tap to continue",
+  replayRun: "↻ Replay this run (#{seed})",
+  gameOver: "GAME OVER",
+  finalScore: "Final Score: {score}",
+  newHighScore: "New High Score!",
+  endlessOver: "Endless Run Over",
+  adaptiveMode: "📈 ADAPTIVE MODE",
+  adaptive: "Adaptive",
+  adaptiveStatus: "Adaptive - {index}/{total} - Time: {seconds}s",
+  adaptiveOver: "Adaptive Run Over",
+  adaptiveSuccess: "🎯 Success rate: {rate}% (aiming for {target}%)",
+  adaptiveDifficulty: "Your next run starts at",
+  adaptivePace: "⏱️ {seconds}s per color",
+  adaptiveGrid: "🔲 {count} tiles",
+  adaptiveDecoys: "🎭 Decoys: {count}",
+  colorsSurvived: "✅ {count} colors survived = +{points} pts",
+  endlessMistakes: "❌ {count} mistakes = –{points} pts",
+  bestStreak: "🔥 Best streak: {streak}",
+  endlessTotal: "🏆 TOTAL = {points} pts",
+  playAgain: "Play Again",
+  averageReaction: "⚡ Average reaction: {time}",
+  fastestReaction: "🚀 Fastest reaction: {time}",
+  slowestColor: "🐢 Slowest color: {color} ({time})",
+  missed: "⌛ Missed: {count}",
+  commissionErrors: "🛑 {count} taps on a stop signal = –{points} pts",
+  omissionErrors: "⌛ {count} colors missed = –{points} pts",
+  stopTapped: "🛑 Tapped on stop: {count}",
+  switchErrors: "🔀 {count} rule switches: {switched}% wrong right after one, {repeated}% otherwise",
+  switchReaction: "🔀 Switch cost: {time} per answer after a rule change",
+  noGoWord: "None",
+  noGoHint: "🛑 Stop tone or NONE: tap nothing!",
+  rulePickCue: "Pick",
+  ruleAvoidCue: "Avoid",
+  ruleVoiceHint: "🔀 On “Pick” tap the color, on “Avoid” tap any other!",
+  ruleBackgroundHint: "🔀 Gold background: tap the color! Blue: tap any other!",
+  practiceHeld: "✅ Well held!",
+  practiceStopTapped: "❌ That was a stop signal, tap nothing!",
+  replayHeld: "✅ Held back on a stop signal",
+  replayStopTapped: "❌ Tile {position} tapped on a stop signal",
+  mistakesByPosition: "Mistakes by position:",
+  settings: "⚙️ Settings",
+  palette: "Color palette",
+  paletteClassic: "Classic",
+  paletteDeuteranopia: "Deuteranopia",
+  paletteProtanopia: "Protanopia",
+  paletteTritanopia: "Tritanopia",
+  paletteHighContrast: "High contrast",
+  showPatterns: "Shapes on tiles",
+  sound: "Sound effects",
+  volume: "Volume",
+  mutedHint: "Effects muted: colors and rule cues are still spoken.",
+  on: "On",
+  off: "Off",
+  done: "Done",
+  tileLabel: "Tile {position}: {color}",
+  livesLabel: "{lives} of {max} lives left",
+  homeLabel: "Back to home",
+  pauseLabel: "Pause",
+  lockedLevelLabel: "Level {level}, locked",
+  keyboardHint: "Keyboard: 1–9 taps a tile, arrows and Enter pick one, Esc pauses",
+  versusMode: "👥 VERSUS",
+  versusTitle: "Two-player versus",
+  hotSeat: "🔁 Hot seat",
+  splitScreen: "↕️ Split screen",
+  hotSeatInfo: "Take turns on the same colors, {rounds} rounds. Each player has their own lives.",
+  splitScreenInfo: "Play at the same time, one half each. Same color for both, first right answer gets a bonus!",
+  startMatch: "START MATCH",
+  player: "Player {player}",
+  playerTurn: "Player {player}, your turn!",
+  passDevice: "Hand the device to Player {player}.",
+  roundOf: "Round {round} of {rounds}",
+  getReady: "Player 1 at the bottom, Player 2 at the top. Get ready!",
+  go: "GO!",
+  turnStatus: "Player {player} - Time: {seconds}s",
+  playerWins: "🏆 Player {player} wins!",
+  draw: "🤝 It's a draw!",
+  livesLeft: "♥ Lives left: {lives}",
+  correctAnswers: "✅ Correct: {count}",
+  mistakes: "❌ Mistakes: {count}",
+  rematch: "Rematch",
+  dailyChallenge: "📅 DAILY CHALLENGE",
+  dailyDone: "Done for today, come back tomorrow!",
+  dailyStreak: "🔥 {streak}-day streak",
+  dailyTitle: "Daily Challenge {date}",
+  dailyStatus: "Daily - {index}/{total} - Time: {seconds}s",
+  dailyCorrect: "✅ {count} of {total} correct = +{points} pts",
+  dailyTime: "⏱️ Time: {time}",
+  promptTimerLabel: "Time left for this color",
+  copyResult: "📋 Copy result",
+  copied: "✅ Copied!",
+  replays: "🎬 Replays",
+  watchReplay: "🎬 Watch replay",
+  replayTime: "⏱️ {time} / {total}",
+  replayAsked: "Asked: {color}",
+  replayAskedRule: "Asked: {color} ({rule})",
+  replayTapped: "{mark} Tile {position} ({tapped}) while asked {spoken}",
+  replayMissed: "⌛ Nothing tapped while asked {spoken}",
+  replayPlay: "▶ Play",
+  replayPause: "⏸ Pause",
+  replayRestart: "⏮ Restart",
+  replayStep: "⏭ Step",
+  replaySpeed: "{speed}x",
+  exportReplay: "📋 Copy replay",
+  importReplayHint: "Paste a replay here to watch it:",
+  loadReplay: "Load",
+  invalidReplay: "That is not a replay this version can play.",
+  noReplay: "No replay yet. Finish a level, or paste one below.",
+  replayLevelChanged: "⚠️ This level has changed since the replay was recorded, it may play back differently.",
+  replayMismatch: "⚠️ Playback ended differently from the recording.",
+  ranked: "Ranked",
+  practice: "Practice",
+  practiceTimer: "⏱ Timer: {state}",
+  practiceBest: "🎯 {accuracy}%",
+  practiceStatus: "🎯 Practice · {answered}/{total}",
+  practiceStatusTimed: "🎯 Practice · ⏰ {seconds}s · {answered}/{total}",
+  practiceCorrect: "✅ Good!",
+  practiceMistake: "❌ That was {spoken}, the spoken color!",
+  practicePickMistake: "❌ The rule was Pick: you had to tap {spoken}!",
+  practiceMissed: "⌛ Too slow! The spoken color was {spoken}",
+  practiceTitle: "Practice - Level {level}",
+  practiceAccuracy: "🎯 Accuracy: {accuracy}%",
+  practiceAnswered: "✅ {count} of {total} correct · ❌ {mistakes} mistakes",
+  practiceNote: "Practice results don't count toward scores or unlocks.",
+  badges: "🏅 Badges",
+  profiles: "👥 Players",
+  addProfile: "Add player",
+  profileName: "Name",
+  avatarColor: "Avatar color",
+  resetProfile: "Reset progress",
+  deleteProfile: "Delete",
+  confirmAgain: "Tap again to confirm",
+  activeProfile: "Playing now",
+  profileLimit: "Up to {count} players per device",
+  badgeEarned: "Badge earned!",
+  badgeCount: "{count} of {total} earned",
+  badgeEarnedOn: "Earned on {date}",
+  badgeLocked: "🔒 Not earned yet",
+  badgeFirstClear: "First Clear",
+  badgeFirstClearInfo: "Complete any level.",
+  badgeNoDamage: "Untouchable",
+  badgeNoDamageInfo: "Complete {count} levels in a row without losing a life.",
+  badgeQuick: "Quick Reflexes",
+  badgeQuickInfo: "Complete a level with an average reaction under one second.",
+  badgeDailyWeek: "Week of Dailies",
+  badgeDailyWeekInfo: "Play the daily challenge {count} days in a row.",
+  badgeFullLives: "Master of Level 6",
+  badgeFullLivesInfo: "Beat Level 6 with all 3 lives left.",
+};
+
+export const LOCALES: Record<LocaleCode, Locale> = {
+  en: {
+    code: 'en',
+    name: "English",
+    speechLanguage: 'en-US',
+    colors: {
+      blue: "blue", green: "green", yellow: "yellow", red: "red", purple: "purple",
+      orange: "orange", pink: "pink", cyan: "cyan", black: "black", white: "white",
+    },
+    strings: EN_STRINGS,
+  },
+  fr: {
+    code: 'fr',
+    name: "Français",
+    speechLanguage: 'fr-FR',
+    colors: {
+      blue: "bleu", green: "vert", yellow: "jaune", red: "rouge", purple: "violet",
+      orange: "orange", pink: "rose", cyan: "cyan", black: "noir", white: "blanc",
+    },
+    strings: {
+      title: "Ne le choisis pas !",
+      subtitle: "Entraîne ton cerveau à aller contre l'instinct.",
+      readyToPlay: "Prêt à jouer ?",
+      instructions: "Tu vas entendre une couleur. Ne la choisis PAS, sinon tu perds !",
+      promptSpeech: "🔊 Voix",
+      promptVisual: "👁️ Mot",
+      promptStroop: "🎨 Stroop",
+      instructionsVisual: "Tu vas voir le nom d'une couleur. Ne choisis PAS cette couleur, quelle que soit son encre !",
+      startGame: "COMMENCER",
+      endlessMode: "♾️ MODE INFINI",
+      highScore: "Meilleur score : {score}",
+      chooseLevel: "Ou choisis un niveau :",
+      level: "Niveau {level}",
+      levelBest: "Record : {score}",
+      endless: "Infini",
+      levelStatus: "Niveau {level} - Temps : {seconds}s",
+      endlessStatus: "Infini - Série {streak} - Temps : {seconds}s",
+      score: "Score : {score}",
+      paused: "Pause",
+      pausedInfo: "{name} - {seconds}s restantes. La couleur sera répétée à la reprise.",
+      pausedInfoUntimed: "{name}. La couleur sera répétée à la reprise.",
+      resume: "REPRENDRE",
+      levelComplete: "Niveau {level} réussi !",
+      levelFailed: "Niveau {level} raté !",
+      colorsFound: "✅ {count} couleurs trouvées = +{points} pts",
+      timeSaved: "⏱️ +{count}s gagnées = +{points} pts",
+      reactionBonus: "⚡ {count} réponses rapides = +{points} pts",
+      comboBonus: "🔥 Combo de {count} = +{points} pts",
+      perfectBonus: "💎 Niveau parfait = +{points} pts",
+      comboStatus: "🔥 x{multiplier}",
+      winTotal: "🏆 TOTAL = +{points} pts",
+      wrongColor: "❌ Mauvaise couleur = –{points} pts",
+      lossTotal: "🔻 TOTAL = –{points} pts",
+      nextLevel: "Niveau suivant",
+      retryLevel: "Réessayer",
+      backToHome: "Retour à l'accueil",
+      tapToContinue: "Touchez pour continuer",
+      replayRun: "↻ Rejouer cette partie (#{seed})",
+      gameOver: "PARTIE TERMINÉE",
+      finalScore: "Score final : {score}",
+      newHighScore: "Nouveau record !",
+      endlessOver: "Fin de la partie infinie",
+      adaptiveMode: "📈 MODE ADAPTATIF",
+      adaptive: "Adaptatif",
+      adaptiveStatus: "Adaptatif - {index}/{total} - Temps : {seconds}s",
+      adaptiveOver: "Fin de la partie adaptative",
+      adaptiveSuccess: "🎯 Réussite : {rate}% (objectif {target}%)",
+      adaptiveDifficulty: "Votre prochaine partie commence à",
+      adaptivePace: "⏱️ {seconds}s par couleur",
+      adaptiveGrid: "🔲 {count} cases",
+      adaptiveDecoys: "🎭 Leurres : {count}",
+      colorsSurvived: "✅ {count} couleurs tenues = +{points} pts",
+      endlessMistakes: "❌ {count} erreurs = –{points} pts",
+      bestStreak: "🔥 Meilleure série : {streak}",
+      endlessTotal: "🏆 TOTAL = {points} pts",
+      playAgain: "Rejouer",
+      averageReaction: "⚡ Réaction moyenne : {time}",
+      fastestReaction: "🚀 Réaction la plus rapide : {time}",
+      slowestColor: "🐢 Couleur la plus lente : {color} ({time})",
+      missed: "⌛ Manquées : {count}",
+      commissionErrors: "🛑 {count} touches sur un signal stop = –{points} pts",
+      omissionErrors: "⌛ {count} couleurs manquées = –{points} pts",
+      stopTapped: "🛑 Touché sur stop : {count}",
+      switchErrors: "🔀 {count} changements de règle : {switched}% d'erreurs juste après, {repeated}% sinon",
+      switchReaction: "🔀 Coût du changement : {time} par réponse après un changement de règle",
+      noGoWord: "Aucune",
+      noGoHint: "🛑 Bip stop ou AUCUNE : ne touchez rien !",
+      rulePickCue: "Choisis",
+      ruleAvoidCue: "Évite",
+      ruleVoiceHint: "🔀 Sur « Choisis » touchez la couleur, sur « Évite » une autre !",
+      ruleBackgroundHint: "🔀 Fond doré : touchez la couleur ! Bleu : une autre !",
+      practiceHeld: "✅ Bien retenu !",
+      practiceStopTapped: "❌ C'était un signal stop, ne touchez rien !",
+      replayHeld: "✅ Retenu sur un signal stop",
+      replayStopTapped: "❌ Case {position} touchée sur un signal stop",
+      mistakesByPosition: "Erreurs par position :",
+      settings: "⚙️ Réglages",
+      palette: "Palette de couleurs",
+      paletteClassic: "Classique",
+      paletteDeuteranopia: "Deutéranopie",
+      paletteProtanopia: "Protanopie",
+      paletteTritanopia: "Tritanopie",
+      paletteHighContrast: "Contraste élevé",
+      showPatterns: "Formes sur les cases",
+      sound: "Effets sonores",
+      volume: "Volume",
+      mutedHint: "Effets coupés : les couleurs et les règles sont toujours dites.",
+      on: "Oui",
+      off: "Non",
+      done: "OK",
+      tileLabel: "Case {position} : {color}",
+      livesLabel: "{lives} vies sur {max}",
+      homeLabel: "Retour à l'accueil",
+      pauseLabel: "Pause",
+      lockedLevelLabel: "Niveau {level}, verrouillé",
+      keyboardHint: "Clavier : 1–9 touche une case, flèches et Entrée pour choisir, Échap met en pause",
+      versusMode: "👥 DUEL",
+      versusTitle: "Duel à deux joueurs",
+      hotSeat: "🔁 Chacun son tour",
+      splitScreen: "↕️ Écran partagé",
+      hotSeatInfo: "Jouez à tour de rôle sur les mêmes couleurs, {rounds} manches. Chacun a ses propres vies.",
+      splitScreenInfo: "Jouez en même temps, une moitié chacun. Même couleur pour les deux, la première bonne réponse gagne un bonus !",
+      startMatch: "LANCER LE DUEL",
+      player: "Joueur {player}",
+      playerTurn: "Joueur {player}, à toi !",
+      passDevice: "Passe l'appareil au joueur {player}.",
+      roundOf: "Manche {round} sur {rounds}",
+      getReady: "Joueur 1 en bas, joueur 2 en haut. Préparez-vous !",
+      go: "PARTEZ !",
+      turnStatus: "Joueur {player} - Temps : {seconds}s",
+      playerWins: "🏆 Le joueur {player} gagne !",
+      draw: "🤝 Égalité !",
+      livesLeft: "♥ Vies restantes : {lives}",
+      correctAnswers: "✅ Bonnes réponses : {count}",
+      mistakes: "❌ Erreurs : {count}",
+      rematch: "Revanche",
+      dailyChallenge: "📅 DÉFI DU JOUR",
+      dailyDone: "Fait pour aujourd'hui, reviens demain !",
+      dailyStreak: "🔥 Série de {streak} jours",
+      dailyTitle: "Défi du jour {date}",
+      dailyStatus: "Défi - {index}/{total} - Temps : {seconds}s",
+      dailyCorrect: "✅ {count} sur {total} justes = +{points} pts",
+      dailyTime: "⏱️ Temps : {time}",
+      promptTimerLabel: "Temps restant pour cette couleur",
+      copyResult: "📋 Copier le résultat",
+      copied: "✅ Copié !",
+      replays: "🎬 Rediffusions",
+      watchReplay: "🎬 Revoir la partie",
+      replayTime: "⏱️ {time} / {total}",
+      replayAsked: "Demandé : {color}",
+      replayAskedRule: "Demandé : {color} ({rule})",
+      replayTapped: "{mark} Case {position} ({tapped}) alors que {spoken} était demandé",
+      replayMissed: "⌛ Rien touché alors que {spoken} était demandé",
+      replayPlay: "▶ Lecture",
+      replayPause: "⏸ Pause",
+      replayRestart: "⏮ Début",
+      replayStep: "⏭ Suivant",
+      replaySpeed: "{speed}x",
+      exportReplay: "📋 Copier la rediffusion",
+      importReplayHint: "Colle une rediffusion ici pour la regarder :",
+      loadReplay: "Charger",
+      invalidReplay: "Ce n'est pas une rediffusion lisible par cette version.",
+      noReplay: "Pas encore de rediffusion. Termine un niveau ou colles-en une ci-dessous.",
+      replayLevelChanged: "⚠️ Ce niveau a changé depuis l'enregistrement, la lecture peut différer.",
+      replayMismatch: "⚠️ La lecture ne finit pas comme l'enregistrement.",
+      ranked: "Classé",
+      practice: "Entraînement",
+      practiceTimer: "⏱ Chrono : {state}",
+      practiceBest: "🎯 {accuracy}%",
+      practiceStatus: "🎯 Entraînement · {answered}/{total}",
+      practiceStatusTimed: "🎯 Entraînement · ⏰ {seconds}s · {answered}/{total}",
+      practiceCorrect: "✅ Bien !",
+      practiceMistake: "❌ C'était {spoken}, la couleur dite !",
+      practicePickMistake: "❌ La règle était Choisis : il fallait toucher {spoken} !",
+      practiceMissed: "⌛ Trop lent, la couleur dite était {spoken}",
+      practiceTitle: "Entraînement - Niveau {level}",
+      practiceAccuracy: "🎯 Précision : {accuracy}%",
+      practiceAnswered: "✅ {count} sur {total} justes · ❌ {mistakes} erreurs",
+      practiceNote: "L'entraînement ne compte ni pour les scores ni pour les déblocages.",
+      badges: "🏅 Badges",
+      profiles: "👥 Joueurs",
+      addProfile: "Ajouter un joueur",
+      profileName: "Nom",
+      avatarColor: "Couleur de l'avatar",
+      resetProfile: "Réinitialiser",
+      deleteProfile: "Supprimer",
+      confirmAgain: "Touchez encore pour confirmer",
+      activeProfile: "Joue maintenant",
+      profileLimit: "Jusqu'à {count} joueurs par appareil",
+      badgeEarned: "Badge obtenu !",
+      badgeCount: "{count} sur {total} obtenus",
+      badgeEarnedOn: "Obtenu le {date}",
+      badgeLocked: "🔒 Pas encore obtenu",
+      badgeFirstClear: "Premier succès",
+      badgeFirstClearInfo: "Terminer un niveau.",
+      badgeNoDamage: "Intouchable",
+      badgeNoDamageInfo: "Terminer {count} niveaux d'affilée sans perdre de vie.",
+      badgeQuick: "Réflexes éclair",
+      badgeQuickInfo: "Terminer un niveau avec une réaction moyenne sous une seconde.",
+      badgeDailyWeek: "Semaine de défis",
+      badgeDailyWeekInfo: "Jouer le défi du jour {count} jours d'affilée.",
+      badgeFullLives: "Maître du niveau 6",
+      badgeFullLivesInfo: "Battre le niveau 6 avec les 3 vies.",
+    },
+  },
+  es: {
+    code: 'es',
+    name: "Español",
+    speechLanguage: 'es-ES',
+    colors: {
+      blue: "azul", green: "verde", yellow: "amarillo", red: "rojo", purple: "morado",
+      orange: "naranja", pink: "rosa", cyan: "cian", black: "negro", white: "blanco",
+    },
+    strings: {
+      title: "¡No lo elijas!",
+      subtitle: "Entrena tu cerebro para ir contra el instinto.",
+      readyToPlay: "¿Listo para jugar?",
+      instructions: "Oirás un color. NO lo elijas. ¡Si lo haces, pierdes!",
+      promptSpeech: "🔊 Voz",
+      promptVisual: "👁️ Palabra",
+      promptStroop: "🎨 Stroop",
+      instructionsVisual: "Verás el nombre de un color. ¡NO elijas ese color, sea cual sea su tinta!",
+      startGame: "EMPEZAR",
+      endlessMode: "♾️ MODO INFINITO",
+      highScore: "Récord: {score}",
+      chooseLevel: "O elige un nivel:",
+      level: "Nivel {level}",
+      levelBest: "Mejor: {score}",
+      endless: "Infinito",
+      levelStatus: "Nivel {level} - Tiempo: {seconds}s",
+      endlessStatus: "Infinito - Racha {streak} - Tiempo: {seconds}s",
+      score: "Puntos: {score}",
+      paused: "En pausa",
+      pausedInfo: "{name} - quedan {seconds}s. El color se repetirá al continuar.",
+      pausedInfoUntimed: "{name}. El color se repetirá al continuar.",
+      resume: "CONTINUAR",
+      levelComplete: "¡Nivel {level} completado!",
+      levelFailed: "¡Nivel {level} fallado!",
+      colorsFound: "✅ {count} colores encontrados = +{points} pts",
+      timeSaved: "⏱️ +{count}s ahorrados = +{points} pts",
+      reactionBonus: "⚡ {count} respuestas rápidas = +{points} pts",
+      comboBonus: "🔥 Combo de {count} = +{points} pts",
+      perfectBonus: "💎 Nivel perfecto = +{points} pts",
+      comboStatus: "🔥 x{multiplier}",
+      winTotal: "🏆 TOTAL = +{points} pts",
+      wrongColor: "❌ Color equivocado = –{points} pts",
+      lossTotal: "🔻 TOTAL = –{points} pts",
+      nextLevel: "Siguiente nivel",
+      retryLevel: "Reintentar",
+      backToHome: "Volver al inicio",
+      tapToContinue: "Toca para continuar",
+      replayRun: "↻ Repetir esta partida (#{seed})",
+      gameOver: "FIN DEL JUEGO",
+      finalScore: "Puntuación final: {score}",
+      newHighScore: "¡Nuevo récord!",
+      endlessOver: "Fin de la partida infinita",
+      adaptiveMode: "📈 MODO ADAPTATIVO",
+      adaptive: "Adaptativo",
+      adaptiveStatus: "Adaptativo - {index}/{total} - Tiempo: {seconds}s",
+      adaptiveOver: "Fin de la partida adaptativa",
+      adaptiveSuccess: "🎯 Aciertos: {rate}% (objetivo {target}%)",
+      adaptiveDifficulty: "Tu próxima partida empieza con",
+      adaptivePace: "⏱️ {seconds}s por color",
+      adaptiveGrid: "🔲 {count} casillas",
+      adaptiveDecoys: "🎭 Señuelos: {count}",
+      colorsSurvived: "✅ {count} colores superados = +{points} pts",
+      endlessMistakes: "❌ {count} errores = –{points} pts",
+      bestStreak: "🔥 Mejor racha: {streak}",
+      endlessTotal: "🏆 TOTAL = {points} pts",
+      playAgain: "Jugar de nuevo",
+      averageReaction: "⚡ Reacción media: {time}",
+      fastestReaction: "🚀 Reacción más rápida: {time}",
+      slowestColor: "🐢 Color más lento: {color} ({time})",
+      missed: "⌛ Perdidos: {count}",
+      commissionErrors: "🛑 {count} toques con señal de stop = –{points} pts",
+      omissionErrors: "⌛ {count} colores perdidos = –{points} pts",
+      stopTapped: "🛑 Tocado en stop: {count}",
+      switchErrors: "🔀 {count} cambios de regla: {switched}% de errores justo después, {repeated}% si no",
+      switchReaction: "🔀 Coste del cambio: {time} por respuesta tras un cambio de regla",
+      noGoWord: "Ninguno",
+      noGoHint: "🛑 Tono de stop o NINGUNO: ¡no toques nada!",
+      rulePickCue: "Elige",
+      ruleAvoidCue: "Evita",
+      ruleVoiceHint: "🔀 Con «Elige» ¡toca el color! Con «Evita» ¡cualquier otro!",
+      ruleBackgroundHint: "🔀 Fondo dorado: ¡toca el color! Azul: ¡cualquier otro!",
+      practiceHeld: "✅ ¡Bien contenido!",
+      practiceStopTapped: "❌ Era una señal de stop, ¡no toques nada!",
+      replayHeld: "✅ Contenido ante una señal de stop",
+      replayStopTapped: "❌ Casilla {position} tocada con señal de stop",
+      mistakesByPosition: "Errores por posición:",
+      settings: "⚙️ Ajustes",
+      palette: "Paleta de colores",
+      paletteClassic: "Clásica",
+      paletteDeuteranopia: "Deuteranopía",
+      paletteProtanopia: "Protanopía",
+      paletteTritanopia: "Tritanopía",
+      paletteHighContrast: "Alto contraste",
+      showPatterns: "Formas en las fichas",
+      sound: "Efectos de sonido",
+      volume: "Volumen",
+      mutedHint: "Efectos silenciados: los colores y las reglas se siguen diciendo.",
+      on: "Sí",
+      off: "No",
+      done: "Listo",
+      tileLabel: "Casilla {position}: {color}",
+      livesLabel: "Quedan {lives} de {max} vidas",
+      homeLabel: "Volver al inicio",
+      pauseLabel: "Pausa",
+      lockedLevelLabel: "Nivel {level}, bloqueado",
+      keyboardHint: "Teclado: 1–9 toca una casilla, flechas y Enter para elegir, Esc pausa",
+      versusMode: "👥 DUELO",
+      versusTitle: "Duelo de dos jugadores",
+      hotSeat: "🔁 Por turnos",
+      splitScreen: "↕️ Pantalla dividida",
+      hotSeatInfo: "Jugad por turnos con los mismos colores, {rounds} rondas. Cada jugador tiene sus propias vidas.",
+      splitScreenInfo: "Jugad a la vez, una mitad cada uno. Mismo color para los dos, ¡la primera respuesta correcta gana un bonus!",
+      startMatch: "EMPEZAR DUELO",
+      player: "Jugador {player}",
+      playerTurn: "¡Jugador {player}, te toca!",
+      passDevice: "Pasa el dispositivo al jugador {player}.",
+      roundOf: "Ronda {round} de {rounds}",
+      getReady: "Jugador 1 abajo, jugador 2 arriba. ¡Preparados!",
+      go: "¡YA!",
+      turnStatus: "Jugador {player} - Tiempo: {seconds}s",
+      playerWins: "🏆 ¡Gana el jugador {player}!",
+      draw: "🤝 ¡Empate!",
+      livesLeft: "♥ Vidas restantes: {lives}",
+      correctAnswers: "✅ Aciertos: {count}",
+      mistakes: "❌ Errores: {count}",
+      rematch: "Revancha",
+      dailyChallenge: "📅 RETO DIARIO",
+      dailyDone: "¡Hecho por hoy, vuelve mañana!",
+      dailyStreak: "🔥 Racha de {streak} días",
+      dailyTitle: "Reto diario {date}",
+      dailyStatus: "Reto - {index}/{total} - Tiempo: {seconds}s",
+      dailyCorrect: "✅ {count} de {total} correctos = +{points} pts",
+      dailyTime: "⏱️ Tiempo: {time}",
+      promptTimerLabel: "Tiempo restante para este color",
+      copyResult: "📋 Copiar resultado",
+      copied: "✅ ¡Copiado!",
+      replays: "🎬 Repeticiones",
+      watchReplay: "🎬 Ver repetición",
+      replayTime: "⏱️ {time} / {total}",
+      replayAsked: "Pedido: {color}",
+      replayAskedRule: "Pedido: {color} ({rule})",
+      replayTapped: "{mark} Casilla {position} ({tapped}) cuando se pedía {spoken}",
+      replayMissed: "⌛ Nada tocado cuando se pedía {spoken}",
+      replayPlay: "▶ Reproducir",
+      replayPause: "⏸ Pausa",
+      replayRestart: "⏮ Inicio",
+      replayStep: "⏭ Paso",
+      replaySpeed: "{speed}x",
+      exportReplay: "📋 Copiar repetición",
+      importReplayHint: "Pega aquí una repetición para verla:",
+      loadReplay: "Cargar",
+      invalidReplay: "Eso no es una repetición que esta versión pueda reproducir.",
+      noReplay: "Aún no hay repetición. Termina un nivel o pega una abajo.",
+      replayLevelChanged: "⚠️ Este nivel ha cambiado desde la grabación, puede reproducirse distinto.",
+      replayMismatch: "⚠️ La reproducción terminó distinto que la grabación.",
+      ranked: "Clasificatorio",
+      practice: "Práctica",
+      practiceTimer: "⏱ Cronómetro: {state}",
+      practiceBest: "🎯 {accuracy}%",
+      practiceStatus: "🎯 Práctica · {answered}/{total}",
+      practiceStatusTimed: "🎯 Práctica · ⏰ {seconds}s · {answered}/{total}",
+      practiceCorrect: "✅ ¡Bien!",
+      practiceMistake: "❌ ¡Era {spoken}, el color dicho!",
+      practicePickMistake: "❌ La regla era Elige: ¡había que tocar {spoken}!",
+      practiceMissed: "⌛ Demasiado lento, el color dicho era {spoken}",
+      practiceTitle: "Práctica - Nivel {level}",
+      practiceAccuracy: "🎯 Precisión: {accuracy}%",
+      practiceAnswered: "✅ {count} de {total} correctos · ❌ {mistakes} errores",
+      practiceNote: "La práctica no cuenta para puntuaciones ni desbloqueos.",
+      badges: "🏅 Insignias",
+      profiles: "👥 Jugadores",
+      addProfile: "Añadir jugador",
+      profileName: "Nombre",
+      avatarColor: "Color del avatar",
+      resetProfile: "Reiniciar progreso",
+      deleteProfile: "Eliminar",
+      confirmAgain: "Toca otra vez para confirmar",
+      activeProfile: "Jugando ahora",
+      profileLimit: "Hasta {count} jugadores por dispositivo",
+      badgeEarned: "¡Insignia conseguida!",
+      badgeCount: "{count} de {total} conseguidas",
+      badgeEarnedOn: "Conseguida el {date}",
+      badgeLocked: "🔒 Aún no conseguida",
+      badgeFirstClear: "Primer logro",
+      badgeFirstClearInfo: "Completa cualquier nivel.",
+      badgeNoDamage: "Intocable",
+      badgeNoDamageInfo: "Completa {count} niveles seguidos sin perder una vida.",
+      badgeQuick: "Reflejos rápidos",
+      badgeQuickInfo: "Completa un nivel con una reacción media de menos de un segundo.",
+      badgeDailyWeek: "Semana de retos",
+      badgeDailyWeekInfo: "Juega el reto diario {count} días seguidos.",
+      badgeFullLives: "Maestro del nivel 6",
+      badgeFullLivesInfo: "Supera el nivel 6 con las 3 vidas.",
+    },
+  },
+  de: {
+    code: 'de',
+    name: "Deutsch",
+    speechLanguage: 'de-DE',
+    colors: {
+      blue: "blau", green: "grün", yellow: "gelb", red: "rot", purple: "lila",
+      orange: "orange", pink: "rosa", cyan: "türkis", black: "schwarz", white: "weiß",
+    },
+    strings: {
+      title: "Nicht antippen!",
+      subtitle: "Trainiere dein Gehirn, gegen den Instinkt zu handeln.",
+      readyToPlay: "Bereit?",
+      instructions: "Du hörst eine Farbe. Wähle sie NICHT. Sonst verlierst du!",
+      promptSpeech: "🔊 Stimme",
+      promptVisual: "👁️ Wort",
+      promptStroop: "🎨 Stroop",
+      instructionsVisual: "Du siehst ein Farbwort. Wähle diese Farbe NICHT, egal in welcher Schrift!",
+      startGame: "SPIEL STARTEN",
+      endlessMode: "♾️ ENDLOSMODUS",
+      highScore: "Highscore: {score}",
+      chooseLevel: "Oder wähle ein Level:",
+      level: "Level {level}",
+      levelBest: "Bestwert: {score}",
+      endless: "Endlos",
+      levelStatus: "Level {level} - Zeit: {seconds}s",
+      endlessStatus: "Endlos - Serie {streak} - Zeit: {seconds}s",
+      score: "Punkte: {score}",
+      paused: "Pausiert",
+      pausedInfo: "{name} - noch {seconds}s. Die Farbe wird beim Fortsetzen wiederholt.",
+      pausedInfoUntimed: "{name}. Die Farbe wird beim Fortsetzen wiederholt.",
+      resume: "WEITER",
+      levelComplete: "Level {level} geschafft!",
+      levelFailed: "Level {level} verloren!",
+      colorsFound: "✅ {count} Farben gefunden = +{points} Pkt",
+      timeSaved: "⏱️ +{count}s gespart = +{points} Pkt",
+      reactionBonus: "⚡ {count} schnelle Antworten = +{points} Pkt",
+      comboBonus: "🔥 {count}er-Kombo = +{points} Pkt",
+      perfectBonus: "💎 Perfektes Level = +{points} Pkt",
+      comboStatus: "🔥 x{multiplier}",
+      winTotal: "🏆 GESAMT = +{points} Pkt",
+      wrongColor: "❌ Falsche Farbe = –{points} Pkt",
+      lossTotal: "🔻 GESAMT = –{points} Pkt",
+      nextLevel: "Nächstes Level",
+      retryLevel: "Nochmal",
+      backToHome: "Zur Startseite",
+      tapToContinue: "Tippen zum Fortfahren",
+      replayRun: "↻ Diese Runde wiederholen (#{seed})",
+      gameOver: "SPIEL VORBEI",
+      finalScore: "Endstand: {score}",
+      newHighScore: "Neuer Highscore!",
+      endlessOver: "Endlosrunde vorbei",
+      adaptiveMode: "📈 ADAPTIVER MODUS",
+      adaptive: "Adaptiv",
+      adaptiveStatus: "Adaptiv - {index}/{total} - Zeit: {seconds}s",
+      adaptiveOver: "Adaptive Runde vorbei",
+      adaptiveSuccess: "🎯 Trefferquote: {rate}% (Ziel {target}%)",
+      adaptiveDifficulty: "Deine nächste Runde beginnt mit",
+      adaptivePace: "⏱️ {seconds}s pro Farbe",
+      adaptiveGrid: "🔲 {count} Felder",
+      adaptiveDecoys: "🎭 Köder: {count}",
+      colorsSurvived: "✅ {count} Farben geschafft = +{points} Pkt",
+      endlessMistakes: "❌ {count} Fehler = –{points} Pkt",
+      bestStreak: "🔥 Beste Serie: {streak}",
+      endlessTotal: "🏆 GESAMT = {points} Pkt",
+      playAgain: "Nochmal spielen",
+      averageReaction: "⚡ Durchschnittliche Reaktion: {time}",
+      fastestReaction: "🚀 Schnellste Reaktion: {time}",
+      slowestColor: "🐢 Langsamste Farbe: {color} ({time})",
+      missed: "⌛ Verpasst: {count}",
+      commissionErrors: "🛑 {count} Tipper auf ein Stoppsignal = –{points} Pkt",
+      omissionErrors: "⌛ {count} Farben verpasst = –{points} Pkt",
+      stopTapped: "🛑 Bei Stopp getippt: {count}",
+      switchErrors: "🔀 {count} Regelwechsel: {switched}% Fehler direkt danach, {repeated}% sonst",
+      switchReaction: "🔀 Wechselkosten: {time} pro Antwort nach einem Regelwechsel",
+      noGoWord: "Keine",
+      noGoHint: "🛑 Stoppton oder KEINE: nichts antippen!",
+      rulePickCue: "Wählen",
+      ruleAvoidCue: "Meiden",
+      ruleVoiceHint: "🔀 Bei „Wählen“ die Farbe antippen, bei „Meiden“ eine andere!",
+      ruleBackgroundHint: "🔀 Goldener Hintergrund: die Farbe antippen! Blau: eine andere!",
+      practiceHeld: "✅ Gut zurückgehalten!",
+      practiceStopTapped: "❌ Das war ein Stoppsignal, nichts antippen!",
+      replayHeld: "✅ Beim Stoppsignal zurückgehalten",
+      replayStopTapped: "❌ Feld {position} beim Stoppsignal angetippt",
+      mistakesByPosition: "Fehler nach Position:",
+      settings: "⚙️ Einstellungen",
+      palette: "Farbpalette",
+      paletteClassic: "Klassisch",
+      paletteDeuteranopia: "Deuteranopie",
+      paletteProtanopia: "Protanopie",
+      paletteTritanopia: "Tritanopie",
+      paletteHighContrast: "Hoher Kontrast",
+      showPatterns: "Formen auf den Feldern",
+      sound: "Soundeffekte",
+      volume: "Lautstärke",
+      mutedHint: "Effekte stumm: Farben und Regeln werden weiter angesagt.",
+      on: "An",
+      off: "Aus",
+      done: "Fertig",
+      tileLabel: "Feld {position}: {color}",
+      livesLabel: "Noch {lives} von {max} Leben",
+      homeLabel: "Zurück zum Start",
+      pauseLabel: "Pause",
+      lockedLevelLabel: "Level {level}, gesperrt",
+      keyboardHint: "Tastatur: 1–9 tippt ein Feld, Pfeile und Enter wählen, Esc pausiert",
+      versusMode: "👥 DUELL",
+      versusTitle: "Duell zu zweit",
+      hotSeat: "🔁 Abwechselnd",
+      splitScreen: "↕️ Geteilter Bildschirm",
+      hotSeatInfo: "Spielt abwechselnd dieselben Farben, {rounds} Runden. Jeder hat eigene Leben.",
+      splitScreenInfo: "Spielt gleichzeitig, jeder auf seiner Hälfte. Gleiche Farbe für beide, die erste richtige Antwort bekommt einen Bonus!",
+      startMatch: "DUELL STARTEN",
+      player: "Spieler {player}",
+      playerTurn: "Spieler {player}, du bist dran!",
+      passDevice: "Gib das Gerät an Spieler {player}.",
+      roundOf: "Runde {round} von {rounds}",
+      getReady: "Spieler 1 unten, Spieler 2 oben. Macht euch bereit!",
+      go: "LOS!",
+      turnStatus: "Spieler {player} - Zeit: {seconds}s",
+      playerWins: "🏆 Spieler {player} gewinnt!",
+      draw: "🤝 Unentschieden!",
+      livesLeft: "♥ Verbleibende Leben: {lives}",
+      correctAnswers: "✅ Richtig: {count}",
+      mistakes: "❌ Fehler: {count}",
+      rematch: "Revanche",
+      dailyChallenge: "📅 TAGESCHALLENGE",
+      dailyDone: "Für heute erledigt, komm morgen wieder!",
+      dailyStreak: "🔥 {streak} Tage in Folge",
+      dailyTitle: "Tageschallenge {date}",
+      dailyStatus: "Challenge - {index}/{total} - Zeit: {seconds}s",
+      dailyCorrect: "✅ {count} von {total} richtig = +{points} Pkt",
+      dailyTime: "⏱️ Zeit: {time}",
+      promptTimerLabel: "Verbleibende Zeit für diese Farbe",
+      copyResult: "📋 Ergebnis kopieren",
+      copied: "✅ Kopiert!",
+      replays: "🎬 Wiederholungen",
+      watchReplay: "🎬 Wiederholung ansehen",
+      replayTime: "⏱️ {time} / {total}",
+      replayAsked: "Gefragt: {color}",
+      replayAskedRule: "Gefragt: {color} ({rule})",
+      replayTapped: "{mark} Feld {position} ({tapped}), gefragt war {spoken}",
+      replayMissed: "⌛ Nichts getippt, gefragt war {spoken}",
+      replayPlay: "▶ Abspielen",
+      replayPause: "⏸ Pause",
+      replayRestart: "⏮ Anfang",
+      replayStep: "⏭ Schritt",
+      replaySpeed: "{speed}x",
+      exportReplay: "📋 Wiederholung kopieren",
+      importReplayHint: "Füge hier eine Wiederholung ein, um sie anzusehen:",
+      loadReplay: "Laden",
+      invalidReplay: "Das ist keine Wiederholung, die diese Version abspielen kann.",
+      noReplay: "Noch keine Wiederholung. Beende ein Level oder füge unten eine ein.",
+      replayLevelChanged: "⚠️ Dieses Level hat sich seit der Aufnahme geändert, die Wiedergabe kann abweichen.",
+      replayMismatch: "⚠️ Die Wiedergabe endete anders als die Aufnahme.",
+      ranked: "Gewertet",
+      practice: "Training",
+      practiceTimer: "⏱ Zeitlimit: {state}",
+      practiceBest: "🎯 {accuracy}%",
+      practiceStatus: "🎯 Training · {answered}/{total}",
+      practiceStatusTimed: "🎯 Training · ⏰ {seconds}s · {answered}/{total}",
+      practiceCorrect: "✅ Gut!",
+      practiceMistake: "❌ Das war {spoken}, die genannte Farbe!",
+      practicePickMistake: "❌ Die Regel war Wählen: {spoken} musste angetippt werden!",
+      practiceMissed: "⌛ Zu langsam, genannt wurde {spoken}",
+      practiceTitle: "Training - Level {level}",
+      practiceAccuracy: "🎯 Genauigkeit: {accuracy}%",
+      practiceAnswered: "✅ {count} von {total} richtig · ❌ {mistakes} Fehler",
+      practiceNote: "Training zählt nicht für Punkte oder Freischaltungen.",
+      badges: "🏅 Abzeichen",
+      profiles: "👥 Spieler",
+      addProfile: "Spieler hinzufügen",
+      profileName: "Name",
+      avatarColor: "Avatarfarbe",
+      resetProfile: "Fortschritt zurücksetzen",
+      deleteProfile: "Löschen",
+      confirmAgain: "Zum Bestätigen erneut tippen",
+      activeProfile: "Spielt gerade",
+      profileLimit: "Bis zu {count} Spieler pro Gerät",
+      badgeEarned: "Abzeichen erhalten!",
+      badgeCount: "{count} von {total} erhalten",
+      badgeEarnedOn: "Erhalten am {date}",
+      badgeLocked: "🔒 Noch nicht erhalten",
+      badgeFirstClear: "Erster Erfolg",
+      badgeFirstClearInfo: "Schließe ein beliebiges Level ab.",
+      badgeNoDamage: "Unantastbar",
+      badgeNoDamageInfo: "Schließe {count} Level in Folge ab, ohne ein Leben zu verlieren.",
+      badgeQuick: "Schnelle Reflexe",
+      badgeQuickInfo: "Schließe ein Level mit einer mittleren Reaktion unter einer Sekunde ab.",
+      badgeDailyWeek: "Eine Woche Tagesaufgaben",
+      badgeDailyWeekInfo: "Spiele die Tagesaufgabe {count} Tage in Folge.",
+      badgeFullLives: "Meister von Level 6",
+      badgeFullLivesInfo: "Schaffe Level 6 mit allen 3 Leben.",
+    },
+  },
+};
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+export const isLocaleCode = (code: unknown): code is LocaleCode =>
+  typeof code === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, code);
+
+// Device language if we have it, English otherwise
+export const detectLocale = (): LocaleCode => {
+  try {
+    const language = Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0];
+    return isLocaleCode(language) ? language : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export type Translate = (key: UiStringKey, params?: Record<string, string | number>) => string;
+
+export const createTranslator = (locale: Locale): Translate => (key, params = {}) =>
+  locale.strings[key].replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
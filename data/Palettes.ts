@@ -0,0 +1,69 @@
+import { ColorName, GAME_COLORS } from '../types/GameTypes';
+import { GlyphShape, Palette, PaletteId } from '../types/PaletteTypes';
+
+// Alternative hex values for the same color names. The colorblind palettes push the
+// confusable pairs apart in lightness as well as hue (based on the Okabe-Ito and
+// Paul Tol schemes), so a color can still be told apart when its hue can't.
+export const PALETTES: Record<PaletteId, Palette> = {
+  classic: {
+    id: 'classic',
+    labelKey: 'paletteClassic',
+    colors: GAME_COLORS,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  deuteranopia: {
+    id: 'deuteranopia',
+    labelKey: 'paletteDeuteranopia',
+    colors: {
+      blue: '#0072B2', green: '#009E73', yellow: '#F0E442', red: '#D55E00', purple: '#CC79A7',
+      orange: '#E69F00', pink: '#F4A6C8', cyan: '#56B4E9', black: '#000000', white: '#FFFFFF',
+    },
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  protanopia: {
+    id: 'protanopia',
+    labelKey: 'paletteProtanopia',
+    colors: {
+      blue: '#1F5FBF', green: '#117733', yellow: '#DDCC77', red: '#E8601C', purple: '#AA4499',
+      orange: '#F4A736', pink: '#EE99AA', cyan: '#88CCEE', black: '#000000', white: '#FFFFFF',
+    },
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  tritanopia: {
+    id: 'tritanopia',
+    labelKey: 'paletteTritanopia',
+    colors: {
+      blue: '#004488', green: '#44AA99', yellow: '#FFDD99', red: '#CC3311', purple: '#882255',
+      orange: '#EE7733', pink: '#FF99CC', cyan: '#33BBEE', black: '#000000', white: '#FFFFFF',
+    },
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  highContrast: {
+    id: 'highContrast',
+    labelKey: 'paletteHighContrast',
+    colors: {
+      blue: '#0033FF', green: '#00CC00', yellow: '#FFFF00', red: '#FF0000', purple: '#9900FF',
+      orange: '#FF8800', pink: '#FF66CC', cyan: '#00FFFF', black: '#000000', white: '#FFFFFF',
+    },
+    borderColor: '#FFFFFF',
+  },
+};
+
+export const DEFAULT_PALETTE: PaletteId = 'classic';
+
+export const isPaletteId = (id: unknown): id is PaletteId =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(PALETTES, id);
+
+// One shape per color, drawn on the tiles when patterns are switched on
+export const COLOR_GLYPHS: Record<ColorName, GlyphShape> = {
+  blue: 'circle',
+  green: 'triangle',
+  yellow: 'star',
+  red: 'square',
+  purple: 'diamond',
+  orange: 'hexagon',
+  pink: 'heart',
+  cyan: 'ring',
+  black: 'cross',
+  white: 'bars',
+};
@@ -0,0 +1,29 @@
+import { ComboRule, GameLevel, ReactionTier, ScoringRules } from '../types/GameTypes';
+
+// Rules for levels that do not override anything: flat points per color, the time bonus and the wrong color penalty
+export const DEFAULT_SCORING: ScoringRules = {
+  pointsPerColor: 10,
+  timeBonusPerSecond: 10,
+  wrongColorPenalty: 10,
+  reactionTiers: [],
+  combo: null,
+  perfectBonus: 0,
+  commissionPenalty: null,
+  omissionPenalty: null,
+};
+
+export const QUICK_REACTION_TIERS: ReactionTier[] = [
+  { withinMs: 600, bonus: 5 },
+  { withinMs: 1000, bonus: 2 },
+];
+
+export const FAST_COMBO: ComboRule = {
+  fastWithinMs: 1000,
+  multiplierStep: 0.25,
+  maxMultiplier: 3,
+};
+
+export const getScoringRules = (level: GameLevel | undefined): ScoringRules => ({
+  ...DEFAULT_SCORING,
+  ...level?.scoring,
+});
@@ -0,0 +1,73 @@
+import { AVPlaybackSource } from 'expo-av';
+import { ColorName } from '../types/GameTypes';
+import { LocaleCode } from '../types/LocaleTypes';
+import { SoundEffect } from '../types/SoundTypes';
+
+export const EFFECT_CLIPS: Record<SoundEffect, AVPlaybackSource> = {
+  tap: require('../assets/sounds/tap.wav'),
+  correct: require('../assets/sounds/correct.wav'),
+  wrong: require('../assets/sounds/wrong.wav'),
+  levelComplete: require('../assets/sounds/level-complete.wav'),
+  tick: require('../assets/sounds/tick.wav'),
+  stop: require('../assets/sounds/stop.wav'), // no-go prompt in speech mode
+};
+
+// Color names per language, pre-synthesized and trimmed so each one starts speaking at once.
+// Typed as complete records so a missing language or color fails the type-check; a clip that
+// fails to load on a device is spoken with text-to-speech instead.
+export const COLOR_CLIPS: Record<LocaleCode, Record<ColorName, AVPlaybackSource>> = {
+  en: {
+    blue: require('../assets/sounds/en/blue.wav'),
+    green: require('../assets/sounds/en/green.wav'),
+    yellow: require('../assets/sounds/en/yellow.wav'),
+    red: require('../assets/sounds/en/red.wav'),
+    purple: require('../assets/sounds/en/purple.wav'),
+    orange: require('../assets/sounds/en/orange.wav'),
+    pink: require('../assets/sounds/en/pink.wav'),
+    cyan: require('../assets/sounds/en/cyan.wav'),
+    black: require('../assets/sounds/en/black.wav'),
+    white: require('../assets/sounds/en/white.wav'),
+  },
+  fr: {
+    blue: require('../assets/sounds/fr/blue.wav'),
+    green: require('../assets/sounds/fr/green.wav'),
+    yellow: require('../assets/sounds/fr/yellow.wav'),
+    red: require('../assets/sounds/fr/red.wav'),
+    purple: require('../assets/sounds/fr/purple.wav'),
+    orange: require('../assets/sounds/fr/orange.wav'),
+    pink: require('../assets/sounds/fr/pink.wav'),
+    cyan: require('../assets/sounds/fr/cyan.wav'),
+    black: require('../assets/sounds/fr/black.wav'),
+    white: require('../assets/sounds/fr/white.wav'),
+  },
+  es: {
+    blue: require('../assets/sounds/es/blue.wav'),
+    green: require('../assets/sounds/es/green.wav'),
+    yellow: require('../assets/sounds/es/yellow.wav'),
+    red: require('../assets/sounds/es/red.wav'),
+    purple: require('../assets/sounds/es/purple.wav'),
+    orange: require('../assets/sounds/es/orange.wav'),
+    pink: require('../assets/sounds/es/pink.wav'),
+    cyan: require('../assets/sounds/es/cyan.wav'),
+    black: require('../assets/sounds/es/black.wav'),
+    white: require('../assets/sounds/es/white.wav'),
+  },
+  de: {
+    blue: require('../assets/sounds/de/blue.wav'),
+    green: require('../assets/sounds/de/green.wav'),
+    yellow: require('../assets/sounds/de/yellow.wav'),
+    red: require('../assets/sounds/de/red.wav'),
+    purple: require('../assets/sounds/de/purple.wav'),
+    orange: require('../assets/sounds/de/orange.wav'),
+    pink: require('../assets/sounds/de/pink.wav'),
+    cyan: require('../assets/sounds/de/cyan.wav'),
+    black: require('../assets/sounds/de/black.wav'),
+    white: require('../assets/sounds/de/white.wav'),
+  },
+};
+
+export const VOLUME_STEPS = [0.25, 0.5, 0.75, 1];
+export const DEFAULT_VOLUME = 1;
+
+// The level clock ticks through its last few seconds
+export const COUNTDOWN_TICK_SECONDS = 3;
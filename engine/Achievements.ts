@@ -0,0 +1,62 @@
+import { AchievementId, AchievementRecord, GameEvent } from '../types/AchievementTypes';
+import { PlayerProgress } from '../types/ProgressTypes';
+import {
+  ACHIEVEMENTS,
+  DAILY_STREAK_GOAL,
+  FULL_LIVES_LEVEL_ID,
+  NO_DAMAGE_LEVELS,
+  QUICK_AVERAGE_MS,
+} from '../data/Achievements';
+import { STARTING_LIVES } from './GameEngine';
+
+export const createAchievementRecord = (): AchievementRecord => ({
+  unlocked: {},
+  flawlessLevels: 0,
+});
+
+// A failed attempt costs a life, so it ends the no-damage streak
+const trackFlawlessLevels = (record: AchievementRecord, event: GameEvent): AchievementRecord => {
+  switch (event.type) {
+    case 'levelCompleted':
+      return { ...record, flawlessLevels: record.flawlessLevels + 1 };
+    case 'levelFailed':
+      return { ...record, flawlessLevels: 0 };
+    default:
+      return record;
+  }
+};
+
+// progress already includes the result the event came from
+const isEarned = (id: AchievementId, event: GameEvent, progress: PlayerProgress, record: AchievementRecord) => {
+  switch (id) {
+    case 'firstClear':
+      return event.type === 'levelCompleted';
+    case 'noDamageRun':
+      return record.flawlessLevels >= NO_DAMAGE_LEVELS;
+    case 'quickReflexes':
+      return event.type === 'levelCompleted' && event.averageReactionMs !== null && event.averageReactionMs < QUICK_AVERAGE_MS;
+    case 'dailyWeek':
+      return event.type === 'dailyPlayed' && progress.daily.streak >= DAILY_STREAK_GOAL;
+    case 'levelSixFullLives':
+      return event.type === 'levelCompleted' && event.levelId === FULL_LIVES_LEVEL_ID && event.livesLeft >= STARTING_LIVES;
+  }
+};
+
+// Returns the progress with any newly earned badges, and which ones they were so they can be announced
+export const applyGameEvent = (progress: PlayerProgress, event: GameEvent, now: number) => {
+  const record = trackFlawlessLevels(progress.achievements, event);
+  const earned = ACHIEVEMENTS
+    .filter(achievement => record.unlocked[achievement.id] === undefined)
+    .filter(achievement => isEarned(achievement.id, event, progress, record))
+    .map(achievement => achievement.id);
+
+  const unlocked = { ...record.unlocked };
+  earned.forEach(id => {
+    unlocked[id] = now;
+  });
+
+  return {
+    progress: { ...progress, achievements: { ...record, unlocked } },
+    earned,
+  };
+};
@@ -0,0 +1,66 @@
+import { AdaptiveConfig, PlayerModel, PromptRecord } from '../types/GameTypes';
+import { ADAPTIVE_MODE } from '../data/AdaptiveMode';
+
+// Framework-free difficulty tuning for adaptive mode. After every answer the model's success
+// rate over the last few answers is compared with the target, and the difficulty moves one
+// step towards it. The window starts over after each change so the new setting is judged on
+// its own answers.
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 100) / 100;
+
+export const getSuccessRate = (model: PlayerModel) =>
+  model.recentResults.length > 0
+    ? model.recentResults.filter(isCorrect => isCorrect).length / model.recentResults.length
+    : null;
+
+// Pacing tightens first, as far as the player's reactions allow; past that the grid gets busier
+// with the pacing eased back a step
+const makeHarder = (model: PlayerModel, config: AdaptiveConfig): PlayerModel => {
+  const floor = Math.max(config.minPromptTime, ((model.averageReactionMs ?? 0) / 1000) * config.reactionHeadroom);
+  const tighter = roundSeconds(model.promptTime - config.promptTimeStep);
+  if (tighter >= floor) return { ...model, promptTime: tighter, recentResults: [] };
+
+  if (model.stageIndex >= config.stages.length - 1) return model;
+  return {
+    ...model,
+    stageIndex: model.stageIndex + 1,
+    promptTime: Math.min(config.maxPromptTime, roundSeconds(model.promptTime + config.promptTimeStep)),
+    recentResults: [],
+  };
+};
+
+// A busier grid is the first thing to go, then the pacing loosens
+const makeEasier = (model: PlayerModel, config: AdaptiveConfig): PlayerModel => {
+  if (model.stageIndex > 0) return { ...model, stageIndex: model.stageIndex - 1, recentResults: [] };
+  if (model.promptTime >= config.maxPromptTime) return model;
+  return {
+    ...model,
+    promptTime: Math.min(config.maxPromptTime, roundSeconds(model.promptTime + config.promptTimeStep)),
+    recentResults: [],
+  };
+};
+
+export const updatePlayerModel = (
+  model: PlayerModel,
+  record: PromptRecord,
+  config: AdaptiveConfig = ADAPTIVE_MODE,
+): PlayerModel => {
+  const { reactionMs } = record;
+  const averageReactionMs = record.isCorrect && reactionMs !== null
+    ? model.averageReactionMs === null
+      ? reactionMs
+      : Math.round(model.averageReactionMs + (reactionMs - model.averageReactionMs) * config.reactionSmoothing)
+    : model.averageReactionMs;
+  const updated = {
+    ...model,
+    recentResults: [...model.recentResults, record.isCorrect].slice(-config.windowSize),
+    averageReactionMs,
+  };
+  if (updated.recentResults.length < config.windowSize) return updated;
+
+  // Rounded so a rate right on the edge of the band counts as inside it
+  const offTarget = Math.round(((getSuccessRate(updated) as number) - config.targetSuccessRate) * 100) / 100;
+  if (offTarget > config.tolerance) return makeHarder(updated, config);
+  if (offTarget < -config.tolerance) return makeEasier(updated, config);
+  return updated;
+};
@@ -0,0 +1,85 @@
+import { ColorName, PromptRecord } from '../types/GameTypes';
+
+export interface ColorReaction {
+  color: ColorName;
+  averageMs: number;
+}
+
+// What a rule change costs: prompts right after one against prompts under the same rule as before
+export interface SwitchCost {
+  switchCount: number; // prompts that came right after a rule change
+  reactionCostMs: number | null; // average correct reaction after a change minus elsewhere, null without both
+  switchErrorRate: number; // % of prompts after a change answered wrong
+  repeatErrorRate: number; // % of the other prompts answered wrong
+}
+
+export interface PromptAnalytics {
+  answeredCount: number; // prompts with a tap
+  averageReactionMs: number | null;
+  fastestReactionMs: number | null;
+  slowestColor: ColorReaction | null; // spoken color with the highest average reaction
+  mistakesByTile: number[]; // wrong taps per grid position, misses are not counted
+  missedCount: number; // prompts that ran out of time without the tap they asked for (omissions)
+  commissionCount: number; // taps on no-go prompts
+  switchCost: SwitchCost | null; // null when the rule never changed
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const getErrorRate = (records: PromptRecord[]) =>
+  records.length > 0 ? Math.round((records.filter(record => !record.isCorrect).length / records.length) * 100) : 0;
+
+const getCorrectReactions = (records: PromptRecord[]) =>
+  records.filter(record => record.isCorrect && record.reactionMs !== null).map(record => record.reactionMs as number);
+
+// The first prompt has nothing to switch from, so it counts with the repeats
+const analyzeSwitches = (log: PromptRecord[]): SwitchCost | null => {
+  const switched = log.filter((record, index) => index > 0 && record.rule !== log[index - 1].rule);
+  if (switched.length === 0) return null;
+  const repeated = log.filter(record => !switched.includes(record));
+
+  const switchReactions = getCorrectReactions(switched);
+  const repeatReactions = getCorrectReactions(repeated);
+  return {
+    switchCount: switched.length,
+    reactionCostMs: switchReactions.length > 0 && repeatReactions.length > 0
+      ? average(switchReactions) - average(repeatReactions)
+      : null,
+    switchErrorRate: getErrorRate(switched),
+    repeatErrorRate: getErrorRate(repeated),
+  };
+};
+
+export const analyzePrompts = (log: PromptRecord[]): PromptAnalytics => {
+  const answered = log.filter(record => record.reactionMs !== null);
+  const reactions = answered.map(record => record.reactionMs as number);
+
+  // Average reaction per spoken color, correct answers only so mistakes don't skew it
+  const byColor = new Map<ColorName, number[]>();
+  for (const record of answered) {
+    if (!record.isCorrect) continue;
+    byColor.set(record.spokenColor, [...(byColor.get(record.spokenColor) ?? []), record.reactionMs as number]);
+  }
+  let slowestColor: ColorReaction | null = null;
+  for (const [color, times] of byColor) {
+    const averageMs = average(times);
+    if (!slowestColor || averageMs > slowestColor.averageMs) slowestColor = { color, averageMs };
+  }
+
+  const gridSize = Math.max(0, ...log.map(record => record.grid.length));
+  const mistakesByTile = new Array<number>(gridSize).fill(0);
+  for (const record of answered) {
+    if (!record.isCorrect && record.tappedIndex !== null) mistakesByTile[record.tappedIndex]++;
+  }
+
+  return {
+    answeredCount: answered.length,
+    averageReactionMs: reactions.length > 0 ? average(reactions) : null,
+    fastestReactionMs: reactions.length > 0 ? Math.min(...reactions) : null,
+    slowestColor,
+    mistakesByTile,
+    missedCount: log.filter(record => record.tappedIndex === null && !record.isNoGo).length,
+    commissionCount: answered.filter(record => record.isNoGo).length,
+    switchCost: analyzeSwitches(log),
+  };
+};
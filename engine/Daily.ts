@@ -0,0 +1,46 @@
+import { PromptRecord } from '../types/GameTypes';
+import { DailyRecord } from '../types/ProgressTypes';
+
+// Local calendar day as YYYY-MM-DD; the daily run changes at the player's midnight
+export const getDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getPreviousDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return getDateKey(new Date(year, month - 1, day - 1));
+};
+
+// Streak still worth showing: the last daily was today or yesterday
+export const getCurrentDailyStreak = (record: DailyRecord, today: string) =>
+  record.lastPlayedDate === today || record.lastPlayedDate === getPreviousDateKey(today) ? record.streak : 0;
+
+// Today's run has been started, whether or not it reached the end
+export const isDailyTaken = (record: DailyRecord, today: string) =>
+  record.lastPlayedDate === today || record.startedDate === today;
+
+// One mark per prompt: ✅ right, ❌ wrong tile, ⌛ too slow
+export const getResultMarks = (log: PromptRecord[]) =>
+  log.map(record => (record.isCorrect ? '✅' : record.tappedIndex === null ? '⌛' : '❌')).join('');
+
+const MARKS_PER_LINE = 5;
+
+// Spoiler-free text to paste anywhere: marks in rows of five, then score, time and streak
+export const buildShareText = (title: string, record: DailyRecord) => {
+  const result = record.lastResult;
+  if (!result) return '';
+
+  const marks = Array.from(result.marks);
+  const lines = [];
+  for (let i = 0; i < marks.length; i += MARKS_PER_LINE) {
+    lines.push(marks.slice(i, i + MARKS_PER_LINE).join(''));
+  }
+
+  return [
+    `${title} 📅 ${result.date}`,
+    ...lines,
+    `🏆 ${result.score} · ⏱️ ${(result.durationMs / 1000).toFixed(1)}s · 🔥 ${record.streak}`,
+  ].join('\n');
+};
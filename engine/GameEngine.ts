@@ -0,0 +1,603 @@
+import { ColorName, GameLevel, GameState, LevelSummary, PlayerModel, PromptMode, PromptRule } from '../types/GameTypes';
+import { GAME_LEVELS, INITIAL_UNLOCKED_LEVELS, getLevel, getNextLevel } from '../data/GameLevels';
+import { getEndlessLevel } from '../data/EndlessMode';
+import { getDailyLevel, getDailySeed } from '../data/DailyChallenge';
+import { ADAPTIVE_MODE, createPlayerModel, getAdaptiveLevel } from '../data/AdaptiveMode';
+import { DEFAULT_SCORING, getScoringRules } from '../data/ScoringRules';
+import { generateColorSequence, generateVisualColors, generatePromptRules, pickInkColor, pickNextColor, pickNoGo, pickPromptRule } from './Generators';
+import { Rng, createRng, seedFromString } from './Random';
+import { updatePlayerModel } from './Adaptive';
+import { getMistakeKind, getMistakePenalty, isOutOfLives, scoreAnswer, summarizeAnswers } from './Scoring';
+
+// Framework-free game rules. Every state change goes through gameReducer so the
+// rules can be exercised without rendering anything; timestamps and seeds are
+// passed in with each action instead of reading Date.now() or Math.random() here.
+
+export const STARTING_LIVES = 3;
+// Flat rates, as used by versus matches; solo levels score through their ScoringRules
+export const POINTS_PER_COLOR = DEFAULT_SCORING.pointsPerColor;
+export const TIME_BONUS_PER_SECOND = DEFAULT_SCORING.timeBonusPerSecond;
+export const WRONG_COLOR_PENALTY = DEFAULT_SCORING.wrongColorPenalty;
+export const FIRST_PROMPT_DELAY_MS = 1000; // pause before the first color of a level is spoken
+
+export type GameAction =
+  | { type: 'SHOW_INTRO' }
+  | { type: 'START_LEVEL'; level: number; seed: number; now: number }
+  | { type: 'START_ENDLESS'; seed: number; now: number }
+  | { type: 'START_DAILY'; date: string; now: number }
+  | { type: 'START_PRACTICE'; level: number; seed: number; timed: boolean; now: number }
+  | { type: 'START_ADAPTIVE'; seed: number; model: PlayerModel; now: number }
+  | { type: 'CLICK_COLOR'; tileIndex: number; now: number }
+  | { type: 'PROMPT_SHOWN'; index: number; now: number }
+  | { type: 'TICK'; now: number }
+  | { type: 'PAUSE'; now: number }
+  | { type: 'RESUME'; now: number }
+  | { type: 'RETRY_LEVEL'; seed: number; now: number }
+  | { type: 'REPLAY_LEVEL'; now: number }
+  | { type: 'NEXT_LEVEL'; seed: number; now: number }
+  | { type: 'GO_HOME'; now: number }
+  | { type: 'LOAD_PROGRESS'; unlockedLevels: number[] }
+  | { type: 'SWITCH_PROFILE'; unlockedLevels: number[] }
+  | { type: 'SET_PROMPT_MODE'; promptMode: PromptMode };
+
+export const createInitialState = (unlockedLevels: number[] = INITIAL_UNLOCKED_LEVELS): GameState => ({
+  mode: 'levels',
+  currentLevel: 1,
+  score: 0,
+  lives: STARTING_LIVES,
+  timeRemaining: 0,
+  currentColorIndex: 0,
+  colorsToClick: [],
+  noGoPrompts: [],
+  promptRules: [],
+  availableColors: [],
+  visualColors: [],
+  preferredPromptMode: 'speech',
+  promptMode: 'speech',
+  promptInk: null,
+  gameStatus: 'homepage',
+  isGameActive: false,
+  levelStartTime: 0,
+  levelTimeLimit: 0,
+  promptStartTime: 0,
+  promptTimeLimit: 0,
+  levelDurationMs: 0,
+  gridShownTime: 0,
+  pausedAt: 0,
+  levelScore: 0,
+  levelSummary: { components: [], total: 0 },
+  unlockedLevels,
+  streak: 0,
+  combo: 0,
+  bestStreak: 0,
+  correctCount: 0,
+  mistakeCount: 0,
+  promptLog: [],
+  seed: 0,
+  rngState: 0,
+  challengeDate: '',
+  practiceTimed: false,
+  playerModel: createPlayerModel(),
+});
+
+export const getTimeRemaining = (state: GameState, now: number) => {
+  const elapsedTime = (now - state.levelStartTime) / 1000; // in seconds
+  return Math.max(0, state.levelTimeLimit - elapsedTime);
+};
+
+// Clock and grid fields kept for the color being asked, by single-player and versus state alike
+type PromptClock = Pick<
+  GameState,
+  'colorsToClick' | 'currentColorIndex' | 'visualColors' | 'timeRemaining' | 'promptStartTime' | 'promptTimeLimit' | 'gridShownTime' | 'rngState'
+>;
+
+export const getPromptTimeRemaining = (state: PromptClock, now: number) => {
+  const elapsedTime = Math.max(0, now - state.promptStartTime) / 1000; // in seconds
+  return Math.max(0, state.promptTimeLimit - elapsedTime);
+};
+
+const getPromptTime = (level: GameLevel) => level.promptTimeLimit ?? 0;
+
+// Stroop ink comes from its own stream, keyed by the run's seed and the prompt's position, so the
+// colors and grids drawn from the main stream are the same whichever prompt mode is played
+const getPromptInk = (promptMode: PromptMode, level: GameLevel, word: ColorName, seed: number, index: number) =>
+  promptMode === 'stroop'
+    ? pickInkColor(level.colorPool, word, createRng(seedFromString(`ink:${seed}:${index}`)))
+    : null;
+
+// Level spec being played: a GAME_LEVELS entry, the endless spec for the current streak, today's daily
+// or the adaptive spec for where the player model stands
+export const getActiveLevel = (state: GameState) => {
+  if (state.mode === 'endless') return getEndlessLevel(state.streak);
+  if (state.mode === 'adaptive') return getAdaptiveLevel(state.playerModel);
+  if (state.mode === 'daily') return getDailyLevel(state.challengeDate);
+  return getLevel(state.currentLevel);
+};
+
+// Prompts a run opens with; the rng is left where the first grid is drawn from
+interface RunPrompts {
+  colorsToClick: ColorName[];
+  noGoPrompts: boolean[];
+  promptRules: PromptRule[];
+  availableColors: ColorName[];
+}
+
+// Levels and the daily deal their whole sequence up front
+const dealSequence = (level: GameLevel, rng: Rng): RunPrompts => {
+  const { sequence, availableColors } = generateColorSequence(level, rng);
+  return {
+    colorsToClick: sequence,
+    noGoPrompts: sequence.map(() => pickNoGo(level, rng)),
+    promptRules: generatePromptRules(level, sequence.length, rng),
+    availableColors,
+  };
+};
+
+// Endless and adaptive runs deal the first color only, see drawNextPrompt
+const dealFirstPrompt = (level: GameLevel, rng: Rng): RunPrompts => {
+  const firstColor = pickNextColor(level.colorPool, [], rng);
+  const isNoGo = pickNoGo(level, rng);
+  const rule = pickPromptRule(level, undefined, rng);
+  return { colorsToClick: [firstColor], noGoPrompts: [isNoGo], promptRules: [rule], availableColors: level.colorPool };
+};
+
+// Fresh play state for any mode; the caller adds the mode and whatever else it sets
+const beginRun = (state: GameState, level: GameLevel, prompts: RunPrompts, rng: Rng, seed: number, now: number): GameState => {
+  const firstColor = prompts.colorsToClick[0];
+  const visualColors = generateVisualColors(level, firstColor, rng);
+  const promptMode = level.promptMode ?? state.preferredPromptMode;
+  const promptTime = getPromptTime(level);
+
+  return {
+    ...state,
+    ...prompts,
+    currentLevel: level.id,
+    timeRemaining: level.timeLimit > 0 ? level.timeLimit : Math.ceil(promptTime),
+    visualColors,
+    promptMode,
+    promptInk: getPromptInk(promptMode, level, firstColor, seed, 0),
+    currentColorIndex: 0,
+    gameStatus: 'playing',
+    isGameActive: true,
+    levelStartTime: now,
+    levelTimeLimit: level.timeLimit,
+    // Reaction times, and a per-color deadline if the level has one, count from when the first color is spoken
+    promptStartTime: now + FIRST_PROMPT_DELAY_MS,
+    promptTimeLimit: promptTime,
+    gridShownTime: now,
+    pausedAt: 0,
+    levelScore: 0,
+    streak: 0,
+    combo: 0,
+    correctCount: 0,
+    mistakeCount: 0,
+    promptLog: [],
+    seed,
+    rngState: rng.getState(),
+  };
+};
+
+// Endless, daily and adaptive runs stand alone: score, lives and best streak start over
+const SCORED_RUN_START = { score: 0, lives: STARTING_LIVES, bestStreak: 0 };
+
+const startLevel = (state: GameState, levelId: number, seed: number, now: number): GameState => {
+  const level = getLevel(levelId);
+  if (!level) return state;
+
+  const rng = createRng(seed);
+  return { ...beginRun(state, level, dealSequence(level, rng), rng, seed, now), mode: 'levels' };
+};
+
+// Practice: any unlocked level with nothing at stake. Mistakes are counted and
+// shown but never cost lives or points, and the clock is optional. No-go levels keep
+// their per-color deadline either way, as running it out is how a no-go prompt is passed.
+const startPractice = (state: GameState, levelId: number, seed: number, timed: boolean, now: number): GameState => {
+  const started = startLevel(state, levelId, seed, now);
+  if (started === state) return state;
+  const keepsPromptTime = timed || getLevel(levelId)?.noGo !== null;
+
+  return {
+    ...started,
+    mode: 'practice',
+    timeRemaining: keepsPromptTime ? started.timeRemaining : 0,
+    levelTimeLimit: timed ? started.levelTimeLimit : 0,
+    promptTimeLimit: keepsPromptTime ? started.promptTimeLimit : 0,
+    practiceTimed: timed,
+  };
+};
+
+// Endless mode: one color at a time, each with its own deadline, until the lives run out
+const startEndless = (state: GameState, seed: number, now: number): GameState => {
+  const level = getEndlessLevel(0);
+  const rng = createRng(seed);
+  return { ...beginRun(state, level, dealFirstPrompt(level, rng), rng, seed, now), ...SCORED_RUN_START, mode: 'endless' };
+};
+
+// Daily challenge: a fixed sequence for the date, every color with its own deadline.
+// Mistakes cost points but never end the run, so every player answers every prompt.
+const startDaily = (state: GameState, date: string, now: number): GameState => {
+  const level = getDailyLevel(date);
+  const seed = getDailySeed(date);
+  const rng = createRng(seed);
+  return {
+    ...beginRun(state, level, dealSequence(level, rng), rng, seed, now),
+    ...SCORED_RUN_START,
+    mode: 'daily',
+    challengeDate: date,
+  };
+};
+
+// Adaptive mode: a fixed number of colors, one at a time like endless, with the pace, grid and
+// decoys retuned after every answer. Mistakes cost points, not the run.
+const startAdaptive = (state: GameState, seed: number, model: PlayerModel, now: number): GameState => {
+  const level = getAdaptiveLevel(model);
+  const rng = createRng(seed);
+  return {
+    ...beginRun(state, level, dealFirstPrompt(level, rng), rng, seed, now),
+    ...SCORED_RUN_START,
+    mode: 'adaptive',
+    playerModel: model,
+  };
+};
+
+// Endless and adaptive runs pick each color once the last one is answered, from the spec that applies now
+const drawNextPrompt = (state: GameState, now: number): GameState => {
+  const level = getActiveLevel(state);
+  if (!level) return state;
+  const rng = createRng(state.rngState);
+  const nextColor = pickNextColor(level.colorPool, state.colorsToClick, rng);
+  const isNoGo = pickNoGo(level, rng);
+  const rule = pickPromptRule(level, state.promptRules[state.promptRules.length - 1], rng);
+
+  return {
+    ...state,
+    timeRemaining: Math.ceil(getPromptTime(level)),
+    colorsToClick: [...state.colorsToClick, nextColor],
+    noGoPrompts: [...state.noGoPrompts, isNoGo],
+    promptRules: [...state.promptRules, rule],
+    availableColors: level.colorPool,
+    visualColors: generateVisualColors(level, nextColor, rng, state.visualColors),
+    promptInk: getPromptInk(state.promptMode, level, nextColor, state.seed, state.currentColorIndex + 1),
+    currentColorIndex: state.currentColorIndex + 1,
+    promptStartTime: now,
+    promptTimeLimit: getPromptTime(level),
+    gridShownTime: now,
+    rngState: rng.getState(),
+  };
+};
+
+// Endless and daily runs score every answer as it comes; their summary breaks down the
+// answers, with the final score as the total since it never drops below zero on the way
+const endScoredRun = (state: GameState, now: number): GameState => ({
+  ...state,
+  gameStatus: 'levelSummary',
+  isGameActive: false,
+  levelDurationMs: now - state.levelStartTime,
+  levelScore: state.score,
+  levelSummary: {
+    components: summarizeAnswers(getScoringRules(getActiveLevel(state)), state.promptLog, null).components,
+    total: state.score,
+  },
+});
+
+const answerEndless = (state: GameState, isCorrect: boolean, now: number): GameState => {
+  const lives = isCorrect ? state.lives : state.lives - 1;
+  const answered = { ...scoreLastAnswer(countAnswer(state, isCorrect)), lives };
+  return isOutOfLives(lives) ? endScoredRun(answered, now) : drawNextPrompt(answered, now);
+};
+
+const answerAdaptive = (state: GameState, isCorrect: boolean, now: number): GameState => {
+  const record = state.promptLog[state.promptLog.length - 1];
+  const answered = {
+    ...scoreLastAnswer(countAnswer(state, isCorrect)),
+    playerModel: updatePlayerModel(state.playerModel, record),
+  };
+  return answered.promptLog.length >= ADAPTIVE_MODE.sequenceLength
+    ? endScoredRun(answered, now)
+    : drawNextPrompt(answered, now);
+};
+
+// What the time bonus pays for: the rest of the level clock or, when each color was timed
+// on its own, what was left of every color's deadline. A color with no tap, like a no-go
+// prompt waited out, used its whole deadline and saves nothing.
+const getSecondsSaved = (state: GameState, now: number) =>
+  state.levelTimeLimit > 0
+    ? getTimeRemaining(state, now)
+    : state.promptLog.reduce(
+      (sum, record) => record.reactionMs === null
+        ? sum
+        : sum + Math.max(0, state.promptTimeLimit - record.reactionMs / 1000),
+      0,
+    );
+
+const completeLevel = (state: GameState, now: number): GameState => {
+  const summary = summarizeAnswers(getScoringRules(getLevel(state.currentLevel)), state.promptLog, getSecondsSaved(state, now));
+
+  // Unlock every level that required this one
+  const newlyUnlocked = GAME_LEVELS
+    .filter(level => level.unlockRequirement === state.currentLevel && !state.unlockedLevels.includes(level.id))
+    .map(level => level.id);
+  const unlockedLevels = newlyUnlocked.length > 0
+    ? [...state.unlockedLevels, ...newlyUnlocked]
+    : state.unlockedLevels;
+
+  return {
+    ...state,
+    score: state.score + summary.total,
+    levelScore: summary.total,
+    levelSummary: summary,
+    gameStatus: 'levelSummary',
+    isGameActive: false,
+    levelDurationMs: now - state.levelStartTime,
+    unlockedLevels,
+  };
+};
+
+// Wrong color, a tap on a no-go prompt or time out: lose a life and points, then either retry or game over
+const failLevel = (state: GameState, now: number): GameState => {
+  const rules = getScoringRules(getLevel(state.currentLevel));
+  const kind = getMistakeKind(rules, state.promptLog[state.promptLog.length - 1]);
+  const penalty = getMistakePenalty(rules, kind);
+  const lives = state.lives - 1;
+  const summary: LevelSummary = { components: [{ kind, count: 1, points: -penalty }], total: -penalty };
+
+  return {
+    ...state,
+    score: Math.max(0, state.score - penalty),
+    lives,
+    gameStatus: isOutOfLives(lives) ? 'failed' : 'levelSummary',
+    isGameActive: false,
+    levelDurationMs: now - state.levelStartTime,
+    levelSummary: summary,
+  };
+};
+
+// Record how the current color was answered; tileIndex is null when nothing was tapped in time
+const logPrompt = (state: GameState, tileIndex: number | null, now: number): GameState => {
+  const spokenColor = state.colorsToClick[state.currentColorIndex];
+  const isNoGo = state.noGoPrompts[state.currentColorIndex] ?? false;
+  const rule = state.promptRules[state.currentColorIndex] ?? 'avoid';
+  const tappedColor = tileIndex !== null ? state.visualColors[tileIndex] : null;
+  const isRightColor = rule === 'pick' ? tappedColor === spokenColor : tappedColor !== spokenColor;
+
+  return {
+    ...state,
+    promptLog: [...state.promptLog, {
+      spokenColor,
+      grid: state.visualColors,
+      isNoGo,
+      rule,
+      tappedIndex: tileIndex,
+      tappedColor,
+      reactionMs: tileIndex !== null ? Math.max(0, now - state.promptStartTime) : null,
+      isCorrect: isNoGo ? tappedColor === null : tappedColor !== null && isRightColor,
+    }],
+  };
+};
+
+const countAnswer = (state: GameState, isCorrect: boolean): GameState => {
+  const streak = isCorrect ? state.streak + 1 : 0;
+  return {
+    ...state,
+    streak,
+    bestStreak: Math.max(state.bestStreak, streak),
+    correctCount: state.correctCount + (isCorrect ? 1 : 0),
+    mistakeCount: state.mistakeCount + (isCorrect ? 0 : 1),
+  };
+};
+
+// Add the last logged answer to the score and carry its combo on
+const scoreLastAnswer = (state: GameState): GameState => {
+  const scored = scoreAnswer(getScoringRules(getActiveLevel(state)), state.promptLog[state.promptLog.length - 1], state.combo);
+  return { ...state, score: Math.max(0, state.score + scored.points), combo: scored.combo };
+};
+
+// Levels and practice only score at the end, but the combo still shows while playing
+const trackCombo = (state: GameState): GameState => ({
+  ...state,
+  combo: scoreAnswer(getScoringRules(getActiveLevel(state)), state.promptLog[state.promptLog.length - 1], state.combo).combo,
+});
+
+const scoreDailyAnswer = (state: GameState, isCorrect: boolean): GameState =>
+  scoreLastAnswer(countAnswer(state, isCorrect));
+
+// Practice ends without touching the run's score or lives; the summary works from the counts
+const endPracticeRun = (state: GameState, now: number): GameState => ({
+  ...state,
+  gameStatus: 'levelSummary',
+  isGameActive: false,
+  levelDurationMs: now - state.levelStartTime,
+  levelScore: 0,
+  levelSummary: { components: [], total: 0 },
+});
+
+// Leaving a daily early counts the colors left as missed, so it cannot be restarted for a better score
+const forfeitDaily = (state: GameState, now: number): GameState => {
+  let forfeited = state;
+  for (let index = state.currentColorIndex; index < state.colorsToClick.length; index++) {
+    forfeited = scoreDailyAnswer(logPrompt({ ...forfeited, currentColorIndex: index }, null, now), false);
+  }
+  return endScoredRun(forfeited, state.gameStatus === 'paused' ? state.pausedAt : now);
+};
+
+// Move past the current color, either by a tap or because its deadline ran out
+const answerPrompt = (state: GameState, isCorrect: boolean, now: number): GameState => {
+  if (state.mode === 'endless') {
+    return answerEndless(state, isCorrect, now);
+  }
+  if (state.mode === 'adaptive') {
+    return answerAdaptive(state, isCorrect, now);
+  }
+
+  const isDaily = state.mode === 'daily';
+  const isPractice = state.mode === 'practice';
+  // Daily and practice runs carry on past mistakes
+  if (!isCorrect && !isDaily && !isPractice) {
+    return failLevel(state, now);
+  }
+
+  const scored = isDaily ? scoreDailyAnswer(state, isCorrect) : trackCombo(isPractice ? countAnswer(state, isCorrect) : state);
+  const newIndex = state.currentColorIndex + 1;
+  if (newIndex >= state.colorsToClick.length) {
+    if (isDaily) return endScoredRun(scored, now);
+    return isPractice ? endPracticeRun(scored, now) : completeLevel(scored, now);
+  }
+
+  // Refresh grid when moving to next color
+  const level = getActiveLevel(state);
+  if (!level) return { ...scored, currentColorIndex: newIndex };
+
+  const rng = createRng(state.rngState);
+  return {
+    ...scored,
+    currentColorIndex: newIndex,
+    promptStartTime: now,
+    visualColors: generateVisualColors(level, state.colorsToClick[newIndex], rng, state.visualColors),
+    promptInk: getPromptInk(state.promptMode, level, state.colorsToClick[newIndex], state.seed, newIndex),
+    gridShownTime: now,
+    rngState: rng.getState(),
+  };
+};
+
+// Decoy levels with reshuffleMs move the tiles around while the same color is still being asked
+const reshuffleIfDue = <T extends PromptClock>(state: T, level: GameLevel | undefined, now: number): T => {
+  const reshuffleMs = level?.decoys?.reshuffleMs;
+  if (!level || !reshuffleMs || now - state.gridShownTime < reshuffleMs) return state;
+
+  const rng = createRng(state.rngState);
+  return {
+    ...state,
+    visualColors: generateVisualColors(level, state.colorsToClick[state.currentColorIndex], rng, state.visualColors, true),
+    gridShownTime: now,
+    rngState: rng.getState(),
+  };
+};
+
+// A tick that ran nothing out: reshuffle the grid if due and show the seconds left
+export const tickPromptClock = <T extends PromptClock>(state: T, level: GameLevel | undefined, remaining: number, now: number): T => {
+  const timeRemaining = Math.ceil(remaining);
+  const next = reshuffleIfDue(state, level, now);
+  return timeRemaining === next.timeRemaining ? next : { ...next, timeRemaining };
+};
+
+// Move the prompt clocks past a pause so the paused time is not counted
+export const shiftPromptClock = <T extends PromptClock>(state: T, pausedFor: number): T => ({
+  ...state,
+  promptStartTime: state.promptStartTime + pausedFor,
+  gridShownTime: state.gridShownTime + pausedFor,
+});
+
+const tick = (state: GameState, now: number): GameState => {
+  if (state.promptTimeLimit > 0 && getPromptTimeRemaining(state, now) <= 0) {
+    // Right for a no-go prompt, a miss for any other
+    const logged = logPrompt(state, null, now);
+    return answerPrompt(logged, logged.promptLog[logged.promptLog.length - 1].isCorrect, now);
+  }
+
+  if (state.levelTimeLimit > 0 && getTimeRemaining(state, now) <= 0) {
+    const timedOut = { ...logPrompt(state, null, now), timeRemaining: 0 };
+    if (state.mode === 'practice') return endPracticeRun(countAnswer(timedOut, false), now);
+    return failLevel(timedOut, now);
+  }
+
+  // Show the tightest clock that applies
+  const remainingTime = state.levelTimeLimit > 0 ? getTimeRemaining(state, now) : getPromptTimeRemaining(state, now);
+  return tickPromptClock(state, getActiveLevel(state), remainingTime, now);
+};
+
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'SHOW_INTRO':
+      return {
+        ...state,
+        currentLevel: 1,
+        score: 0,
+        lives: STARTING_LIVES,
+        gameStatus: 'waiting',
+      };
+    case 'START_LEVEL':
+      // Only allow starting unlocked levels
+      if (!state.unlockedLevels.includes(action.level)) return state;
+      return startLevel(state, action.level, action.seed, action.now);
+    case 'START_ENDLESS':
+      return startEndless(state, action.seed, action.now);
+    case 'START_DAILY':
+      return startDaily(state, action.date, action.now);
+    case 'START_PRACTICE':
+      if (!state.unlockedLevels.includes(action.level)) return state;
+      return startPractice(state, action.level, action.seed, action.timed, action.now);
+    case 'START_ADAPTIVE':
+      return startAdaptive(state, action.seed, action.model, action.now);
+    case 'CLICK_COLOR': {
+      if (state.gameStatus !== 'playing' || !state.visualColors[action.tileIndex]) return state;
+      const logged = logPrompt(state, action.tileIndex, action.now);
+      return answerPrompt(logged, logged.promptLog[logged.promptLog.length - 1].isCorrect, action.now);
+    }
+    case 'PROMPT_SHOWN':
+      // The color was given late, after a spoken rule cue; reaction time counts from here
+      if (state.gameStatus !== 'playing' || action.index !== state.currentColorIndex) return state;
+      return { ...state, promptStartTime: Math.max(state.promptStartTime, action.now) };
+    case 'TICK':
+      if (!state.isGameActive) return state;
+      return tick(state, action.now);
+    case 'PAUSE':
+      if (state.gameStatus !== 'playing') return state;
+      return { ...state, gameStatus: 'paused', isGameActive: false, pausedAt: action.now };
+    case 'RESUME': {
+      if (state.gameStatus !== 'paused') return state;
+      // Shift the clocks forward so the paused time is not counted
+      const pausedFor = action.now - state.pausedAt;
+      return {
+        ...shiftPromptClock(state, pausedFor),
+        gameStatus: 'playing',
+        isGameActive: true,
+        levelStartTime: state.levelStartTime + pausedFor,
+        pausedAt: 0,
+      };
+    }
+    case 'RETRY_LEVEL':
+      // One attempt per daily challenge
+      if (state.mode === 'daily') return state;
+      if (state.mode === 'endless') return startEndless(state, action.seed, action.now);
+      if (state.mode === 'practice') return startPractice(state, state.currentLevel, action.seed, state.practiceTimed, action.now);
+      // Carries on from the difficulty the last run ended at
+      if (state.mode === 'adaptive') return startAdaptive(state, action.seed, state.playerModel, action.now);
+      return startLevel(state, state.currentLevel, action.seed, action.now);
+    case 'REPLAY_LEVEL':
+      // Same seed as last time: identical sequence and grids. The adaptive difficulty has moved on since.
+      if (state.mode === 'daily' || state.mode === 'adaptive') return state;
+      if (state.mode === 'endless') return startEndless(state, state.seed, action.now);
+      if (state.mode === 'practice') return startPractice(state, state.currentLevel, state.seed, state.practiceTimed, action.now);
+      return startLevel(state, state.currentLevel, state.seed, action.now);
+    case 'NEXT_LEVEL': {
+      if (state.mode === 'practice') return state;
+      const nextLevel = getNextLevel(state.currentLevel);
+      if (!nextLevel) return state;
+      return gameReducer(state, { type: 'START_LEVEL', level: nextLevel.id, seed: action.seed, now: action.now });
+    }
+    case 'GO_HOME': {
+      if (state.mode === 'daily' && (state.gameStatus === 'playing' || state.gameStatus === 'paused')) {
+        return forfeitDaily(state, action.now);
+      }
+      const home = { ...createInitialState(state.unlockedLevels), preferredPromptMode: state.preferredPromptMode };
+      // Keep the run going unless it just ended in a game over; endless, daily and adaptive runs always
+      // start fresh, practice never touched it
+      return state.gameStatus === 'failed' || state.mode === 'endless' || state.mode === 'daily' || state.mode === 'adaptive'
+        ? home
+        : { ...home, currentLevel: state.currentLevel, score: state.score, lives: state.lives };
+    }
+    case 'LOAD_PROGRESS': {
+      // Saved progress only ever adds levels
+      const newlyUnlocked = action.unlockedLevels.filter(level => !state.unlockedLevels.includes(level));
+      if (newlyUnlocked.length === 0) return state;
+      return { ...state, unlockedLevels: [...state.unlockedLevels, ...newlyUnlocked] };
+    }
+    case 'SWITCH_PROFILE':
+      // Another player's levels replace these outright; only the prompt choice carries over
+      return { ...createInitialState(action.unlockedLevels), preferredPromptMode: state.preferredPromptMode };
+    case 'SET_PROMPT_MODE':
+      return { ...state, preferredPromptMode: action.promptMode };
+    default:
+      return state;
+  }
+};
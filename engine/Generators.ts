@@ -0,0 +1,135 @@
+import { ColorName, GameLevel, PromptRule } from '../types/GameTypes';
+import { Rng, randomInt } from './Random';
+
+// Next color to speak, never the same color more than 4 times in a row
+export const pickNextColor = (availableColors: ColorName[], previous: ColorName[], rng: Rng) => {
+  const i = previous.length;
+  let newColor: ColorName;
+  let attempts = 0;
+
+  do {
+    newColor = availableColors[randomInt(rng, availableColors.length)];
+    attempts++;
+
+    // If we've tried too many times, just pick any color
+    if (attempts > 10) break;
+  } while (
+    i >= 3 && // Only check after we have at least 4 colors
+    previous[i-1] === newColor &&
+    previous[i-2] === newColor &&
+    previous[i-3] === newColor
+  );
+
+  return newColor;
+};
+
+// Whether the next prompt is a no-go one. Levels without no-go prompts draw nothing, so their runs play as before.
+export const pickNoGo = (level: GameLevel, rng: Rng) => level.noGo !== null && rng.next() < level.noGo.chance;
+
+// Rule for the next prompt, given the one before it (undefined for the first). Like pickNoGo,
+// levels without rule switches draw nothing.
+export const pickPromptRule = (level: GameLevel, previous: PromptRule | undefined, rng: Rng): PromptRule => {
+  if (!level.ruleSwitch) return 'avoid';
+  if (previous === undefined) return level.ruleSwitch.startRule;
+  if (rng.next() >= level.ruleSwitch.switchChance) return previous;
+  return previous === 'avoid' ? 'pick' : 'avoid';
+};
+
+// Prompt rules for a whole sequence, each one following from the last
+export const generatePromptRules = (level: GameLevel, length: number, rng: Rng) => {
+  const rules: PromptRule[] = [];
+  for (let i = 0; i < length; i++) {
+    rules.push(pickPromptRule(level, rules[i - 1], rng));
+  }
+  return rules;
+};
+
+// Ink for a stroop prompt: any pool color except the word itself
+export const pickInkColor = (availableColors: ColorName[], word: ColorName, rng: Rng) => {
+  const others = availableColors.filter(color => color !== word);
+  return others.length > 0 ? others[randomInt(rng, others.length)] : word;
+};
+
+export const generateColorSequence = (level: GameLevel, rng: Rng) => {
+  const availableColors = [...level.colorPool];
+  const sequence: ColorName[] = [];
+
+  for (let i = 0; i < level.sequenceLength; i++) {
+    sequence.push(pickNextColor(availableColors, sequence, rng));
+  }
+
+  return { sequence, availableColors };
+};
+
+// Shuffle array function
+export const shuffleArray = <T>(array: T[], rng: Rng) => {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Repeat colors in order until there are exactly `count` of them
+const fillTiles = (colors: ColorName[], count: number) =>
+  Array.from({ length: count }, (_, i) => colors[i % colors.length]);
+
+const buildTiles = (level: GameLevel, currentColor: ColorName, rng: Rng) => {
+  if (!level.decoys) {
+    const pool = level.colorPool;
+    if (level.gridSize === pool.length) return [...pool];
+
+    // Fewer tiles than colors: the forbidden color plus a random subset of the others
+    if (level.gridSize < pool.length) {
+      const safe = shuffleArray(pool.filter(color => color !== currentColor), rng);
+      return level.gridSize > 1 ? [currentColor, ...safe.slice(0, level.gridSize - 1)] : safe.slice(0, 1);
+    }
+
+    // More tiles than colors: every color once, random repeats for the rest
+    const extras = Array.from({ length: level.gridSize - pool.length }, () => pool[randomInt(rng, pool.length)]);
+    return [...pool, ...extras];
+  }
+
+  // Decoy levels: the forbidden color appears on several tiles, the rest use a few other colors
+  const { forbiddenTiles, safeColors } = level.decoys;
+  const otherColors = shuffleArray(level.colorPool.filter(color => color !== currentColor), rng)
+    .slice(0, safeColors);
+  const forbiddenCount = otherColors.length > 0
+    ? Math.min(forbiddenTiles, level.gridSize - otherColors.length)
+    : level.gridSize;
+
+  return [
+    ...fillTiles([currentColor], forbiddenCount),
+    ...fillTiles(otherColors, level.gridSize - forbiddenCount),
+  ];
+};
+
+export const generateVisualColors = (
+  level: GameLevel,
+  currentColor: ColorName,
+  rng: Rng,
+  lastArrangement: ColorName[] = [],
+  avoidRepeat: boolean = level.avoidRepeatedLayout,
+) => {
+  const colors = buildTiles(level, currentColor, rng);
+
+  if (!avoidRepeat) {
+    return shuffleArray(colors, rng);
+  }
+
+  // Prevent consecutive identical arrangements
+  let shuffledColors: ColorName[];
+  let attempts = 0;
+
+  do {
+    shuffledColors = shuffleArray(colors, rng);
+    attempts++;
+  } while (
+    attempts < 10 && // Prevent infinite loop
+    lastArrangement.length > 0 &&
+    JSON.stringify(shuffledColors) === JSON.stringify(lastArrangement)
+  );
+
+  return shuffledColors;
+};
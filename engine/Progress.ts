@@ -0,0 +1,144 @@
+import { AdaptiveResult, DailyResult, EndlessResult, LevelResult, PlayerProgress, PracticeResult } from '../types/ProgressTypes';
+import { INITIAL_UNLOCKED_LEVELS } from '../data/GameLevels';
+import { createPlayerModel } from '../data/AdaptiveMode';
+import { getPreviousDateKey } from './Daily';
+import { createAchievementRecord } from './Achievements';
+
+export const PROGRESS_SCHEMA_VERSION = 7;
+
+export const createInitialProgress = (): PlayerProgress => ({
+  version: PROGRESS_SCHEMA_VERSION,
+  unlockedLevels: [...INITIAL_UNLOCKED_LEVELS],
+  levelRecords: {},
+  endless: {
+    bestScore: 0,
+    bestStreak: 0,
+    runsPlayed: 0,
+  },
+  daily: {
+    lastPlayedDate: null,
+    startedDate: null,
+    streak: 0,
+    bestStreak: 0,
+    bestScore: 0,
+    daysPlayed: 0,
+    lastResult: null,
+  },
+  practice: {},
+  adaptive: {
+    bestScore: 0,
+    runsPlayed: 0,
+    model: createPlayerModel(),
+  },
+  achievements: createAchievementRecord(),
+  stats: {
+    levelsPlayed: 0,
+    levelsCompleted: 0,
+    levelsFailed: 0,
+    gamesOver: 0,
+    totalScore: 0,
+    bestRunScore: 0,
+    totalPlayTimeMs: 0,
+  },
+});
+
+const mergeLevels = (a: number[], b: number[]) =>
+  [...a, ...b.filter(level => !a.includes(level))].sort((x, y) => x - y);
+
+// Fold the outcome of one level attempt into the saved progress
+export const applyLevelResult = (progress: PlayerProgress, result: LevelResult): PlayerProgress => {
+  const previous = progress.levelRecords[result.levelId];
+  const levelRecords = result.completed
+    ? {
+        ...progress.levelRecords,
+        [result.levelId]: {
+          bestScore: Math.max(previous?.bestScore ?? 0, result.levelScore),
+          bestTimeMs: previous?.bestTimeMs != null
+            ? Math.min(previous.bestTimeMs, result.durationMs)
+            : result.durationMs,
+        },
+      }
+    : progress.levelRecords;
+
+  const { stats } = progress;
+  return {
+    ...progress,
+    unlockedLevels: mergeLevels(progress.unlockedLevels, result.unlockedLevels),
+    levelRecords,
+    stats: {
+      levelsPlayed: stats.levelsPlayed + 1,
+      levelsCompleted: stats.levelsCompleted + (result.completed ? 1 : 0),
+      levelsFailed: stats.levelsFailed + (result.completed ? 0 : 1),
+      gamesOver: stats.gamesOver + (result.isGameOver ? 1 : 0),
+      totalScore: stats.totalScore + (result.completed ? result.levelScore : 0),
+      bestRunScore: Math.max(stats.bestRunScore, result.runScore),
+      totalPlayTimeMs: stats.totalPlayTimeMs + result.durationMs,
+    },
+  };
+};
+
+export const applyEndlessResult = (progress: PlayerProgress, result: EndlessResult): PlayerProgress => ({
+  ...progress,
+  endless: {
+    bestScore: Math.max(progress.endless.bestScore, result.score),
+    bestStreak: Math.max(progress.endless.bestStreak, result.bestStreak),
+    runsPlayed: progress.endless.runsPlayed + 1,
+  },
+});
+
+export const applyAdaptiveResult = (progress: PlayerProgress, result: AdaptiveResult): PlayerProgress => ({
+  ...progress,
+  adaptive: {
+    bestScore: Math.max(progress.adaptive.bestScore, result.score),
+    runsPlayed: progress.adaptive.runsPlayed + 1,
+    model: result.model,
+  },
+});
+
+export const applyDailyStart = (progress: PlayerProgress, date: string): PlayerProgress => ({
+  ...progress,
+  daily: { ...progress.daily, startedDate: date },
+});
+
+// The daily counts once per date; playing on consecutive days extends the streak
+export const applyDailyResult = (progress: PlayerProgress, result: DailyResult): PlayerProgress => {
+  const { daily } = progress;
+  if (daily.lastPlayedDate === result.date) return progress;
+
+  const streak = daily.lastPlayedDate === getPreviousDateKey(result.date) ? daily.streak + 1 : 1;
+  return {
+    ...progress,
+    daily: {
+      lastPlayedDate: result.date,
+      startedDate: daily.startedDate,
+      streak,
+      bestStreak: Math.max(daily.bestStreak, streak),
+      bestScore: Math.max(daily.bestScore, result.score),
+      daysPlayed: daily.daysPlayed + 1,
+      lastResult: result,
+    },
+  };
+};
+
+export const getAccuracy = (correctCount: number, promptCount: number) =>
+  promptCount > 0 ? Math.round((correctCount / promptCount) * 100) : 0;
+
+// Practice only ever updates its own records; ranked scores and lifetime stats stay as they were
+export const applyPracticeResult = (progress: PlayerProgress, result: PracticeResult): PlayerProgress => {
+  const previous = progress.practice[result.levelId];
+  const isClean = result.mistakeCount === 0 && result.correctCount === result.promptCount;
+
+  return {
+    ...progress,
+    practice: {
+      ...progress.practice,
+      [result.levelId]: {
+        sessions: (previous?.sessions ?? 0) + 1,
+        bestAccuracy: Math.max(previous?.bestAccuracy ?? 0, getAccuracy(result.correctCount, result.promptCount)),
+        bestTimeMs: isClean && (previous?.bestTimeMs == null || result.durationMs < previous.bestTimeMs)
+          ? result.durationMs
+          : previous?.bestTimeMs ?? null,
+      },
+    },
+  };
+};
@@ -0,0 +1,38 @@
+// Seedable PRNG (mulberry32). All game randomness goes through an Rng so a run
+// can be reproduced from its seed; the generator state is a single uint32 that
+// can be stored in GameState and resumed later.
+
+export interface Rng {
+  next: () => number; // float in [0, 1)
+  getState: () => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  return {
+    next: () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => state,
+  };
+};
+
+export const randomInt = (rng: Rng, maxExclusive: number) => Math.floor(rng.next() * maxExclusive);
+
+// Fresh seed for a normal (non-replayed) run
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// Stable seed from text such as a date or a share code (FNV-1a)
+export const seedFromString = (text: string) => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,208 @@
+import { GameLevel, GameState } from '../types/GameTypes';
+import { Replay, ReplayFrame, ReplayInput } from '../types/ReplayTypes';
+import { getLevel } from '../data/GameLevels';
+import { getEndlessLevel } from '../data/EndlessMode';
+import { getDailyLevel } from '../data/DailyChallenge';
+import { createPlayerModel, getAdaptiveLevel, readPlayerModel } from '../data/AdaptiveMode';
+import { GameAction, STARTING_LIVES, createInitialState, gameReducer, getActiveLevel } from './GameEngine';
+
+// Replays are the actions that reached gameReducer during one level, so playing one
+// back is just reducing them again. The recorder keeps its own copy of the state to
+// tell which timer ticks actually changed something; the rest are left out.
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayRecorder {
+  state: GameState; // mirrors the state the UI is showing
+  replay: Replay | null; // level being recorded
+  finished: Replay | null; // most recent complete recording
+}
+
+const STARTING_ACTIONS: GameAction['type'][] = [
+  'START_LEVEL',
+  'START_ENDLESS',
+  'START_DAILY',
+  'START_PRACTICE',
+  'START_ADAPTIVE',
+  'RETRY_LEVEL',
+  'REPLAY_LEVEL',
+  'NEXT_LEVEL',
+];
+
+const isInLevel = (state: GameState) => state.gameStatus === 'playing' || state.gameStatus === 'paused';
+
+export const createRecorder = (state: GameState): ReplayRecorder => ({ state, replay: null, finished: null });
+
+const beginReplay = (state: GameState, level: GameLevel): Replay => ({
+  version: REPLAY_FORMAT_VERSION,
+  recordedAt: new Date(state.levelStartTime).toISOString(),
+  mode: state.mode,
+  levelId: state.currentLevel,
+  level,
+  seed: state.seed,
+  challengeDate: state.challengeDate,
+  practiceTimed: state.practiceTimed,
+  playerModel: state.mode === 'adaptive' ? state.playerModel : null,
+  promptMode: state.promptMode,
+  startScore: state.score,
+  startLives: state.lives,
+  inputs: [],
+  outcome: null,
+});
+
+const toInput = (action: GameAction, startedAt: number): ReplayInput | null => {
+  switch (action.type) {
+    case 'CLICK_COLOR':
+      return { at: action.now - startedAt, type: action.type, tileIndex: action.tileIndex };
+    case 'PROMPT_SHOWN':
+      return { at: action.now - startedAt, type: action.type, index: action.index };
+    case 'TICK':
+    case 'PAUSE':
+    case 'RESUME':
+    case 'GO_HOME':
+      return { at: action.now - startedAt, type: action.type };
+    default:
+      return null;
+  }
+};
+
+// Feed every dispatched action through here as well as the reducer
+export const recordAction = (recorder: ReplayRecorder, action: GameAction): ReplayRecorder => {
+  const previous = recorder.state;
+  const state = gameReducer(previous, action);
+  if (state === previous) return recorder;
+
+  if (STARTING_ACTIONS.includes(action.type) && state.gameStatus === 'playing') {
+    const level = getActiveLevel(state);
+    return { ...recorder, state, replay: level ? beginReplay(state, level) : null };
+  }
+
+  const { replay } = recorder;
+  if (!replay) return { ...recorder, state };
+
+  const startedAt = new Date(replay.recordedAt).getTime();
+  const input = 'now' in action ? toInput(action, startedAt) : null;
+  const recorded = input ? { ...replay, inputs: [...replay.inputs, input] } : replay;
+  if (isInLevel(state)) return { ...recorder, state, replay: recorded };
+
+  const outcome = { gameStatus: state.gameStatus, score: state.score, promptsAnswered: state.promptLog.length };
+  return { state, replay: null, finished: { ...recorded, outcome } };
+};
+
+// The level as this version of the game defines it; a replay of a level that has since
+// been rebalanced will not play back the same
+export const getCurrentLevelSpec = (replay: Replay) => {
+  switch (replay.mode) {
+    case 'endless':
+      return getEndlessLevel(0);
+    case 'daily':
+      return getDailyLevel(replay.challengeDate);
+    case 'adaptive':
+      return getAdaptiveLevel(replay.playerModel ?? createPlayerModel());
+    default:
+      return getLevel(replay.levelId);
+  }
+};
+
+export const isLevelUnchanged = (replay: Replay) => {
+  // Endless specs change with the streak, only the opening one is compared
+  const current = getCurrentLevelSpec(replay);
+  return current !== undefined && JSON.stringify(current) === JSON.stringify(replay.level);
+};
+
+const startAction = (replay: Replay): GameAction => {
+  switch (replay.mode) {
+    case 'endless':
+      return { type: 'START_ENDLESS', seed: replay.seed, now: 0 };
+    case 'daily':
+      return { type: 'START_DAILY', date: replay.challengeDate, now: 0 };
+    case 'practice':
+      return { type: 'START_PRACTICE', level: replay.levelId, seed: replay.seed, timed: replay.practiceTimed, now: 0 };
+    case 'adaptive':
+      return { type: 'START_ADAPTIVE', seed: replay.seed, model: replay.playerModel ?? createPlayerModel(), now: 0 };
+    default:
+      return { type: 'START_LEVEL', level: replay.levelId, seed: replay.seed, now: 0 };
+  }
+};
+
+const toAction = (input: ReplayInput): GameAction => {
+  switch (input.type) {
+    case 'CLICK_COLOR':
+      return { type: input.type, tileIndex: input.tileIndex, now: input.at };
+    case 'PROMPT_SHOWN':
+      return { type: input.type, index: input.index, now: input.at };
+    default:
+      return { type: input.type, now: input.at };
+  }
+};
+
+// Every intermediate state, starting from the freshly started level
+export const buildReplayFrames = (replay: Replay): ReplayFrame<GameState>[] => {
+  const initial: GameState = {
+    ...createInitialState([replay.levelId]),
+    preferredPromptMode: replay.promptMode,
+    score: replay.startScore,
+    lives: replay.startLives,
+  };
+  let state = gameReducer(initial, startAction(replay));
+  const frames: ReplayFrame<GameState>[] = [{ at: 0, input: null, state }];
+
+  for (const input of replay.inputs) {
+    state = gameReducer(state, toAction(input));
+    frames.push({ at: input.at, input, state });
+  }
+  return frames;
+};
+
+// Whether playing the replay back ends the way the recording did
+export const matchesOutcome = (replay: Replay, finalState: GameState) =>
+  replay.outcome === null || (
+    replay.outcome.gameStatus === finalState.gameStatus
+    && replay.outcome.score === finalState.score
+    && replay.outcome.promptsAnswered === finalState.promptLog.length
+  );
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+const INPUT_TYPES: ReplayInput['type'][] = ['CLICK_COLOR', 'PROMPT_SHOWN', 'TICK', 'PAUSE', 'RESUME', 'GO_HOME'];
+
+const isReplayInput = (value: unknown): value is ReplayInput => {
+  if (typeof value !== 'object' || value === null) return false;
+  const input = value as Record<string, unknown>;
+  if (typeof input.at !== 'number' || !INPUT_TYPES.includes(input.type as ReplayInput['type'])) return false;
+  if (input.type === 'CLICK_COLOR') return typeof input.tileIndex === 'number';
+  return input.type !== 'PROMPT_SHOWN' || typeof input.index === 'number';
+};
+
+// Pasted text back into a Replay, null if it is not one this version can play. Values the game
+// could never have recorded are brought into range, and a replay that still fails to play back
+// is turned down here rather than while the replay screen renders.
+export const parseReplay = (text: string): Replay | null => {
+  try {
+    const data = JSON.parse(text);
+    if (typeof data !== 'object' || data === null) return null;
+    if (data.version !== REPLAY_FORMAT_VERSION) return null;
+    if (!['levels', 'endless', 'daily', 'practice', 'adaptive'].includes(data.mode)) return null;
+    if (!['speech', 'visual', 'stroop'].includes(data.promptMode)) return null;
+    if (typeof data.levelId !== 'number' || typeof data.seed !== 'number') return null;
+    if (typeof data.startScore !== 'number' || typeof data.startLives !== 'number') return null;
+    if (typeof data.level !== 'object' || data.level === null) return null;
+    if (!Array.isArray(data.inputs) || !data.inputs.every(isReplayInput)) return null;
+
+    const replay: Replay = {
+      ...data,
+      recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+      challengeDate: typeof data.challengeDate === 'string' ? data.challengeDate : '',
+      practiceTimed: data.practiceTimed === true,
+      playerModel: data.mode === 'adaptive' ? readPlayerModel(data.playerModel) : null,
+      startScore: Math.max(0, Math.floor(data.startScore)),
+      startLives: Math.min(STARTING_LIVES, Math.max(1, Math.floor(data.startLives))),
+      outcome: typeof data.outcome === 'object' ? data.outcome : null,
+    };
+    buildReplayFrames(replay);
+    return replay;
+  } catch (error) {
+    console.log('Replay parse error:', error);
+    return null;
+  }
+};
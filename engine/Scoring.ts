@@ -0,0 +1,117 @@
+import { LevelSummary, PromptRecord, ScoreComponent, ScoreComponentKind, ScoringRules } from '../types/GameTypes';
+
+// Framework-free scoring. Points are worked out from the prompt log and the level's
+// rules only, so a summary can always be rebuilt from what was answered.
+
+export interface AnswerScore {
+  points: number; // what the answer adds to the score, negative for a mistake
+  reactionBonus: number;
+  comboBonus: number;
+  combo: number; // combo length after this answer
+}
+
+const isQuickAnswer = (rules: ScoringRules, record: PromptRecord) =>
+  rules.combo !== null && record.isCorrect && record.reactionMs !== null && record.reactionMs <= rules.combo.fastWithinMs;
+
+// Holding back on a no-go prompt is as good as the quickest answer
+const isPerfectAnswer = (rules: ScoringRules, record: PromptRecord) =>
+  record.isCorrect && (rules.combo === null || record.isNoGo || isQuickAnswer(rules, record));
+
+type MistakeKind = Extract<ScoreComponentKind, 'mistakes' | 'commission' | 'omission'>;
+
+const MISTAKE_KINDS: MistakeKind[] = ['mistakes', 'commission', 'omission'];
+
+// Which summary line a wrong answer goes on: a tap on a no-go prompt (commission) and no tap
+// on a go prompt (omission) only get their own when the rules price them
+export const getMistakeKind = (rules: ScoringRules, record: PromptRecord): MistakeKind => {
+  if (record.isNoGo && rules.commissionPenalty !== null) return 'commission';
+  if (!record.isNoGo && record.tappedIndex === null && rules.omissionPenalty !== null) return 'omission';
+  return 'mistakes';
+};
+
+export const getMistakePenalty = (rules: ScoringRules, kind: MistakeKind) => {
+  if (kind === 'commission') return rules.commissionPenalty ?? rules.wrongColorPenalty;
+  if (kind === 'omission') return rules.omissionPenalty ?? rules.wrongColorPenalty;
+  return rules.wrongColorPenalty;
+};
+
+export const getReactionBonus = (rules: ScoringRules, reactionMs: number | null) =>
+  reactionMs === null ? 0 : rules.reactionTiers.find(tier => reactionMs <= tier.withinMs)?.bonus ?? 0;
+
+// x1 for the first quick answer, then one step more for each one after it
+export const getComboMultiplier = (rules: ScoringRules, combo: number) =>
+  rules.combo === null || combo < 2
+    ? 1
+    : Math.min(rules.combo.maxMultiplier, 1 + (combo - 1) * rules.combo.multiplierStep);
+
+// combo is the run of quick answers before this one
+export const scoreAnswer = (rules: ScoringRules, record: PromptRecord, combo: number): AnswerScore => {
+  if (!record.isCorrect) {
+    return { points: -getMistakePenalty(rules, getMistakeKind(rules, record)), reactionBonus: 0, comboBonus: 0, combo: 0 };
+  }
+  // A no-go prompt held back on keeps the combo going without adding to it
+  if (record.isNoGo) {
+    return { points: rules.pointsPerColor, reactionBonus: 0, comboBonus: 0, combo };
+  }
+
+  const nextCombo = isQuickAnswer(rules, record) ? combo + 1 : 0;
+  const reactionBonus = getReactionBonus(rules, record.reactionMs);
+  const earned = rules.pointsPerColor + reactionBonus;
+  const comboBonus = Math.round(earned * (getComboMultiplier(rules, nextCombo) - 1));
+
+  return { points: earned + comboBonus, reactionBonus, comboBonus, combo: nextCombo };
+};
+
+// Breakdown of a run of answers. A completed level also gets the clock and perfect bonuses;
+// components a level's rules cannot produce, or that came to nothing, are left out.
+export const summarizeAnswers = (
+  rules: ScoringRules,
+  log: PromptRecord[],
+  completedWithSecondsLeft: number | null,
+): LevelSummary => {
+  let combo = 0;
+  let bestCombo = 0;
+  let correctCount = 0;
+  let quickCount = 0;
+  let reactionPoints = 0;
+  let comboPoints = 0;
+  const mistakeCounts: Record<MistakeKind, number> = { mistakes: 0, commission: 0, omission: 0 };
+
+  for (const record of log) {
+    const scored = scoreAnswer(rules, record, combo);
+    combo = scored.combo;
+    bestCombo = Math.max(bestCombo, combo);
+    if (record.isCorrect) correctCount++;
+    else mistakeCounts[getMistakeKind(rules, record)]++;
+    if (scored.reactionBonus > 0) quickCount++;
+    reactionPoints += scored.reactionBonus;
+    comboPoints += scored.comboBonus;
+  }
+
+  const components: ScoreComponent[] = [
+    { kind: 'colors', count: correctCount, points: correctCount * rules.pointsPerColor },
+  ];
+  if (reactionPoints > 0) components.push({ kind: 'reaction', count: quickCount, points: reactionPoints });
+  if (comboPoints > 0) components.push({ kind: 'combo', count: bestCombo, points: comboPoints });
+
+  if (completedWithSecondsLeft !== null) {
+    const seconds = Math.floor(completedWithSecondsLeft);
+    if (rules.timeBonusPerSecond > 0) {
+      components.push({ kind: 'time', count: seconds, points: seconds * rules.timeBonusPerSecond });
+    }
+    const isPerfect = log.length > 0 && log.every(record => isPerfectAnswer(rules, record));
+    if (rules.perfectBonus > 0 && isPerfect) {
+      components.push({ kind: 'perfect', count: 1, points: rules.perfectBonus });
+    }
+  }
+
+  for (const kind of MISTAKE_KINDS) {
+    const count = mistakeCounts[kind];
+    if (count > 0) components.push({ kind, count, points: -count * getMistakePenalty(rules, kind) });
+  }
+
+  return { components, total: components.reduce((sum, component) => sum + component.points, 0) };
+};
+
+// Runs end when the lives do; the score never decides it
+export const isOutOfLives = (lives: number) => lives <= 0;
@@ -0,0 +1,280 @@
+import { GameLevel, PromptMode } from '../types/GameTypes';
+import { VersusLayout, VersusPlayer, VersusState } from '../types/VersusTypes';
+import { getLevel } from '../data/GameLevels';
+import { generateColorSequence, generateVisualColors, pickInkColor } from './Generators';
+import { createRng } from './Random';
+import {
+  FIRST_PROMPT_DELAY_MS,
+  POINTS_PER_COLOR,
+  STARTING_LIVES,
+  TIME_BONUS_PER_SECOND,
+  WRONG_COLOR_PENALTY,
+  getPromptTimeRemaining,
+  shiftPromptClock,
+  tickPromptClock,
+} from './GameEngine';
+
+// Local two-player rules, kept apart from gameReducer so single-player state
+// stays one player's. Scoring follows the single-player constants.
+
+export const VERSUS_PLAYERS = 2;
+export const VERSUS_ROUNDS = 3; // hot seat rounds per match
+export const SPLIT_PROMPT_TIME = 3; // seconds to answer each color in split screen
+export const FIRST_CORRECT_BONUS = 5; // split screen: extra points for the faster correct answer
+
+export type VersusAction =
+  | { type: 'START_VERSUS'; layout: VersusLayout; levelId: number; promptMode: PromptMode }
+  | { type: 'BEGIN_TURN'; seed: number; now: number }
+  | { type: 'TAP'; player: number; tileIndex: number; now: number }
+  | { type: 'TICK'; now: number }
+  | { type: 'PAUSE'; now: number }
+  | { type: 'RESUME'; now: number }
+  | { type: 'REMATCH' };
+
+// Versus answers every color the plain way, so levels built around no-go prompts or
+// rule switches are not offered
+export const isVersusLevel = (level: GameLevel) => level.noGo === null && level.ruleSwitch === null;
+
+const createPlayer = (): VersusPlayer => ({
+  score: 0,
+  lives: STARTING_LIVES,
+  correctCount: 0,
+  mistakeCount: 0,
+  reactionTotalMs: 0,
+});
+
+export const createVersusState = (): VersusState => ({
+  layout: 'hotSeat',
+  levelId: 1,
+  promptMode: 'speech',
+  status: 'setup',
+  isActive: false,
+  round: 1,
+  activePlayer: 0,
+  players: [],
+  answers: [],
+  colorsToClick: [],
+  currentColorIndex: 0,
+  visualColors: [],
+  promptInk: null,
+  timeRemaining: 0,
+  turnStartTime: 0,
+  turnTimeLimit: 0,
+  promptStartTime: 0,
+  promptTimeLimit: 0,
+  gridShownTime: 0,
+  pausedAt: 0,
+  roundSeed: 0,
+  rngState: 0,
+});
+
+// Higher score wins, then more lives left; null on a draw
+export const getVersusWinner = (state: VersusState): number | null => {
+  const [first, second] = state.players;
+  if (!first || !second) return null;
+  const difference = first.score - second.score || first.lives - second.lives;
+  if (difference === 0) return null;
+  return difference > 0 ? 0 : 1;
+};
+
+const updatePlayer = (players: VersusPlayer[], index: number, changes: (player: VersusPlayer) => Partial<VersusPlayer>) =>
+  players.map((player, i) => (i === index ? { ...player, ...changes(player) } : player));
+
+const rewardCorrect = (player: VersusPlayer, reactionMs: number, bonus: number): Partial<VersusPlayer> => ({
+  score: player.score + POINTS_PER_COLOR + bonus,
+  correctCount: player.correctCount + 1,
+  reactionTotalMs: player.reactionTotalMs + reactionMs,
+});
+
+const penalize = (player: VersusPlayer): Partial<VersusPlayer> => ({
+  score: Math.max(0, player.score - WRONG_COLOR_PENALTY),
+  lives: player.lives - 1,
+  mistakeCount: player.mistakeCount + 1,
+});
+
+// Deal a level's sequence and first grid; hot seat reuses the seed so both turns of a round match
+const dealSequence = (state: VersusState, level: GameLevel, seed: number, now: number): VersusState => {
+  const rng = createRng(seed);
+  const { sequence } = generateColorSequence(level, rng);
+  const visualColors = generateVisualColors(level, sequence[0], rng);
+  const isSplit = state.layout === 'splitScreen';
+  // Split screen always times each color; hot seat does when the level does
+  const promptTime = isSplit ? SPLIT_PROMPT_TIME : level.promptTimeLimit ?? 0;
+  const turnTime = isSplit ? 0 : level.timeLimit;
+
+  return {
+    ...state,
+    status: 'playing',
+    isActive: true,
+    answers: state.players.map(() => null),
+    colorsToClick: sequence,
+    currentColorIndex: 0,
+    visualColors,
+    promptInk: state.promptMode === 'stroop' ? pickInkColor(level.colorPool, sequence[0], rng) : null,
+    timeRemaining: turnTime > 0 ? turnTime : Math.ceil(promptTime),
+    turnStartTime: now,
+    turnTimeLimit: turnTime,
+    promptStartTime: now + FIRST_PROMPT_DELAY_MS,
+    promptTimeLimit: promptTime,
+    gridShownTime: now,
+    pausedAt: 0,
+    roundSeed: seed,
+    rngState: rng.getState(),
+  };
+};
+
+const startMatch = (state: VersusState, layout: VersusLayout, levelId: number, promptMode: PromptMode): VersusState => {
+  const level = getLevel(levelId);
+  if (!level || !isVersusLevel(level)) return state;
+
+  return {
+    ...createVersusState(),
+    layout,
+    levelId,
+    promptMode: level.promptMode ?? promptMode,
+    // Both layouts wait on the intro screen so the players can get ready
+    status: 'turnIntro',
+    players: Array.from({ length: VERSUS_PLAYERS }, createPlayer),
+  };
+};
+
+const nextPrompt = (state: VersusState, level: GameLevel, now: number): VersusState => {
+  const newIndex = state.currentColorIndex + 1;
+  const color = state.colorsToClick[newIndex];
+  const rng = createRng(state.rngState);
+
+  return {
+    ...state,
+    answers: state.players.map(() => null),
+    currentColorIndex: newIndex,
+    visualColors: generateVisualColors(level, color, rng, state.visualColors),
+    promptInk: state.promptMode === 'stroop' ? pickInkColor(level.colorPool, color, rng) : null,
+    promptStartTime: now,
+    gridShownTime: now,
+    rngState: rng.getState(),
+  };
+};
+
+const endMatch = (state: VersusState): VersusState => ({ ...state, status: 'result', isActive: false });
+
+// Hot seat: hand over to the other player, or close the round
+const endTurn = (state: VersusState): VersusState => {
+  const isLastPlayer = state.activePlayer === state.players.length - 1;
+  if (!isLastPlayer) {
+    return { ...state, status: 'turnIntro', isActive: false, activePlayer: state.activePlayer + 1 };
+  }
+
+  const someoneOut = state.players.some(player => player.lives <= 0);
+  if (someoneOut || state.round >= VERSUS_ROUNDS) return endMatch(state);
+  return { ...state, status: 'turnIntro', isActive: false, activePlayer: 0, round: state.round + 1 };
+};
+
+const tapHotSeat = (state: VersusState, level: GameLevel, player: number, tileIndex: number, now: number): VersusState => {
+  if (player !== state.activePlayer) return state;
+
+  const isCorrect = state.visualColors[tileIndex] !== state.colorsToClick[state.currentColorIndex];
+  if (!isCorrect) {
+    return endTurn({ ...state, players: updatePlayer(state.players, player, penalize) });
+  }
+
+  const reactionMs = Math.max(0, now - state.promptStartTime);
+  const players = updatePlayer(state.players, player, current => ({
+    correctCount: current.correctCount + 1,
+    reactionTotalMs: current.reactionTotalMs + reactionMs,
+  }));
+
+  // Finishing the sequence scores the same as completing the level alone
+  if (state.currentColorIndex + 1 >= state.colorsToClick.length) {
+    const elapsed = (now - state.turnStartTime) / 1000;
+    const timeBonus = Math.floor(Math.max(0, state.turnTimeLimit - elapsed)) * TIME_BONUS_PER_SECOND;
+    const turnScore = state.colorsToClick.length * POINTS_PER_COLOR + timeBonus;
+    return endTurn({ ...state, players: updatePlayer(players, player, current => ({ score: current.score + turnScore })) });
+  }
+  return nextPrompt({ ...state, players }, level, now);
+};
+
+// Split screen: move on once everyone still in has answered, or end the match
+const settlePrompt = (state: VersusState, level: GameLevel, now: number): VersusState => {
+  if (state.players.some(player => player.lives <= 0)) return endMatch(state);
+
+  const everyoneAnswered = state.answers.every(answer => answer !== null);
+  if (!everyoneAnswered) return state;
+  if (state.currentColorIndex + 1 >= state.colorsToClick.length) return endMatch(state);
+  return nextPrompt(state, level, now);
+};
+
+const tapSplitScreen = (state: VersusState, level: GameLevel, player: number, tileIndex: number, now: number): VersusState => {
+  if (state.answers[player] !== null || now < state.promptStartTime) return state;
+
+  const spoken = state.colorsToClick[state.currentColorIndex];
+  const isCorrect = state.visualColors[tileIndex] !== spoken;
+  const beatenTo = state.answers.some(answer => answer !== null && answer >= 0 && state.visualColors[answer] !== spoken);
+  const reactionMs = now - state.promptStartTime;
+
+  const players = updatePlayer(state.players, player, current =>
+    isCorrect ? rewardCorrect(current, reactionMs, beatenTo ? 0 : FIRST_CORRECT_BONUS) : penalize(current));
+  const answers = state.answers.map((answer, i) => (i === player ? tileIndex : answer));
+  return settlePrompt({ ...state, players, answers }, level, now);
+};
+
+const tick = (state: VersusState, level: GameLevel, now: number): VersusState => {
+  if (state.layout === 'hotSeat') {
+    const remaining = state.turnTimeLimit > 0
+      ? state.turnTimeLimit - (now - state.turnStartTime) / 1000
+      : getPromptTimeRemaining(state, now);
+    if (remaining <= 0) {
+      return endTurn({ ...state, players: updatePlayer(state.players, state.activePlayer, penalize) });
+    }
+    return tickPromptClock(state, level, remaining, now);
+  }
+
+  const remaining = getPromptTimeRemaining(state, now);
+  if (remaining <= 0) {
+    // Whoever has not answered missed the color
+    const players = state.players.map((player, i) => (state.answers[i] === null ? { ...player, ...penalize(player) } : player));
+    const answers = state.answers.map(answer => answer ?? -1);
+    return settlePrompt({ ...state, players, answers }, level, now);
+  }
+  return tickPromptClock(state, level, remaining, now);
+};
+
+export const versusReducer = (state: VersusState, action: VersusAction): VersusState => {
+  const level = getLevel(state.levelId);
+
+  switch (action.type) {
+    case 'START_VERSUS':
+      return startMatch(state, action.layout, action.levelId, action.promptMode);
+    case 'BEGIN_TURN': {
+      if (state.status !== 'turnIntro' || !level) return state;
+      // The second hot seat turn of a round replays the first one's sequence
+      const seed = state.layout === 'hotSeat' && state.activePlayer > 0 ? state.roundSeed : action.seed;
+      return dealSequence(state, level, seed, action.now);
+    }
+    case 'TAP':
+      if (state.status !== 'playing' || !level || !state.visualColors[action.tileIndex]) return state;
+      return state.layout === 'hotSeat'
+        ? tapHotSeat(state, level, action.player, action.tileIndex, action.now)
+        : tapSplitScreen(state, level, action.player, action.tileIndex, action.now);
+    case 'TICK':
+      if (!state.isActive || !level) return state;
+      return tick(state, level, action.now);
+    case 'PAUSE':
+      if (state.status !== 'playing') return state;
+      return { ...state, status: 'paused', isActive: false, pausedAt: action.now };
+    case 'RESUME': {
+      if (state.status !== 'paused') return state;
+      const pausedFor = action.now - state.pausedAt;
+      return {
+        ...shiftPromptClock(state, pausedFor),
+        status: 'playing',
+        isActive: true,
+        turnStartTime: state.turnStartTime + pausedFor,
+        pausedAt: 0,
+      };
+    }
+    case 'REMATCH':
+      return startMatch(state, state.layout, state.levelId, state.promptMode);
+    default:
+      return state;
+  }
+};
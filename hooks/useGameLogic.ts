@@ -1,151 +1,331 @@
-import { useState, useEffect, useCallback } from 'react';
-import { GameState, ColorName, GAME_COLORS } from '../types/GameTypes';
-import { GAME_LEVELS } from '../data/GameLevels';
+import { useReducer, useEffect, useCallback, useRef, useState } from 'react';
+import { AppState, Platform } from 'react-native';
+import { PromptMode, PromptRecord } from '../types/GameTypes';
+import { Replay } from '../types/ReplayTypes';
+import { AchievementId } from '../types/AchievementTypes';
+import { Locale } from '../types/LocaleTypes';
+import { PlayerSettings } from '../types/SettingsTypes';
+import { gameReducer, createInitialState, getActiveLevel, FIRST_PROMPT_DELAY_MS, GameAction } from '../engine/GameEngine';
+import { createRecorder, recordAction, ReplayRecorder } from '../engine/Replay';
+import { randomSeed } from '../engine/Random';
+import { getDateKey, getResultMarks, isDailyTaken } from '../engine/Daily';
+import { analyzePrompts } from '../engine/Analytics';
+import { createTranslator } from '../data/Locales';
+import { COUNTDOWN_TICK_SECONDS } from '../data/SoundClips';
+import { createPlayerModel } from '../data/AdaptiveMode';
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { defaultStore } from '../storage/DefaultStore';
+import useProgress from './useProgress';
+import useSound from './useSound';
 import * as Speech from 'expo-speech';
+import * as Haptics from 'expo-haptics';
 
-const useGameLogic = () => {
-  const [gameState, setGameState] = useState<GameState>({
-    currentLevel: 1,
-    score: 0,
-    timeRemaining: 0,
-    currentColorIndex: 0,
-    colorsToClick: [],
-    availableColors: [],
-    gameStatus: 'waiting',
-    isGameActive: false,
-  });
-
-  const generateColorSequence = useCallback((level: number) => {
-    const levelData = GAME_LEVELS[level - 1];
-    const colorNames = Object.keys(GAME_COLORS) as ColorName[];
-    
-    // Select available colors based on level
-    let availableColors: ColorName[];
-    if (levelData.availableColors === 2) {
-      availableColors = colorNames.slice(0, 2);
-    } else {
-      availableColors = [...colorNames];
-    }
+const TICK_INTERVAL_MS = 100;
 
-    // Generate 10 random colors from available colors
-    const sequence: ColorName[] = [];
-    for (let i = 0; i < 10; i++) {
-      const randomIndex = Math.floor(Math.random() * availableColors.length);
-      sequence.push(availableColors[randomIndex]);
-    }
+// Buzz on every answer so the result can be felt without looking at the screen
+const playAnswerHaptic = async (record: PromptRecord) => {
+  if (Platform.OS === 'web') return;
+  try {
+    const type = record.isCorrect
+      ? Haptics.NotificationFeedbackType.Success
+      : record.tappedIndex === null
+        ? Haptics.NotificationFeedbackType.Warning
+        : Haptics.NotificationFeedbackType.Error;
+    await Haptics.notificationAsync(type);
+  } catch (error) {
+    console.log('Haptics error:', error);
+  }
+};
 
-    return { sequence, availableColors };
+// React binding for the game engine: owns the reducer state, drives the timer,
+// speaks each color as it comes up, plays the sound effects and saves level results
+// to the active profile's store.
+const useGameLogic = (
+  locale: Locale,
+  audio: Pick<PlayerSettings, 'volume' | 'isMuted'>,
+  store: KeyValueStore = defaultStore,
+) => {
+  const [gameState, dispatchToReducer] = useReducer(gameReducer, undefined, () => createInitialState());
+  const recorder = useRef<ReplayRecorder>(createRecorder(gameState));
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const { playEffect, playColor, playWord } = useSound(locale, audio.volume, audio.isMuted);
+  const [isPromptShown, setPromptShown] = useState(false);
+  const {
+    progress,
+    recordLevelResult,
+    recordEndlessResult,
+    recordDailyStart,
+    recordDailyResult,
+    recordPracticeResult,
+    recordAdaptiveResult,
+    recordGameEvent,
+  } = useProgress(store);
+  const [earnedBadges, setEarnedBadges] = useState<AchievementId[]>([]);
+  const recordedLevelStart = useRef(0);
+  const feltPromptCount = useRef(0);
+  const loadedStore = useRef<KeyValueStore | null>(null);
+
+  // Every action also goes to the replay recorder, which keeps the last finished level
+  const dispatch = useCallback((action: GameAction) => {
+    const previous = recorder.current;
+    recorder.current = recordAction(previous, action);
+    if (recorder.current.finished !== previous.finished) setLastReplay(recorder.current.finished);
+    dispatchToReducer(action);
   }, []);
 
-  const startLevel = useCallback((level: number) => {
-    const levelData = GAME_LEVELS[level - 1];
-    const { sequence, availableColors } = generateColorSequence(level);
-    
-    setGameState(prev => ({
-      ...prev,
-      currentLevel: level,
-      timeRemaining: levelData.timeLimit,
-      colorsToClick: sequence,
-      availableColors,
-      currentColorIndex: 0,
-      gameStatus: 'playing',
-      isGameActive: true,
-    }));
-
-    // Start speaking the first color immediately
-    setTimeout(() => {
-      speakColor(sequence[0]);
-    }, 1000);
-  }, [generateColorSequence, speakColor]);
-
-  const speakColor = useCallback(async (color: string) => {
-    try {
-      await Speech.speak(color, {
-        language: 'en-US',
-        pitch: 1.0,
-        rate: 0.8,
-      });
-    } catch (error) {
-      console.log('Speech error:', error);
-    }
+  // Pass a seed to play a specific run (shared or replayed), otherwise a fresh one is drawn
+  const startLevel = useCallback((level: number, seed: number = randomSeed()) => {
+    dispatch({ type: 'START_LEVEL', level, seed, now: Date.now() });
+  }, []);
+
+  const handleColorClick = useCallback((tileIndex: number) => {
+    playEffect('tap');
+    dispatch({ type: 'CLICK_COLOR', tileIndex, now: Date.now() });
+  }, [playEffect]);
+
+  const startEndless = useCallback((seed: number = randomSeed()) => {
+    dispatch({ type: 'START_ENDLESS', seed, now: Date.now() });
+  }, []);
+
+  const startPractice = useCallback((level: number, timed: boolean) => {
+    dispatch({ type: 'START_PRACTICE', level, seed: randomSeed(), timed, now: Date.now() });
+  }, []);
+
+  // Picks up at the difficulty the player's last adaptive run ended at
+  const startAdaptive = useCallback(() => {
+    const model = progress?.adaptive.model ?? createPlayerModel();
+    dispatch({ type: 'START_ADAPTIVE', seed: randomSeed(), model, now: Date.now() });
+  }, [progress]);
+
+  // Badges are announced one at a time, oldest first
+  const dismissBadge = useCallback(() => {
+    setEarnedBadges(queue => queue.slice(1));
+  }, []);
+
+  // Today's challenge can only be played once, and starting it uses up the attempt
+  const startDaily = useCallback(() => {
+    const today = getDateKey(new Date());
+    if (!progress || isDailyTaken(progress.daily, today)) return;
+    recordDailyStart(today);
+    dispatch({ type: 'START_DAILY', date: today, now: Date.now() });
+  }, [progress, recordDailyStart]);
+
+  const retryLevel = useCallback(() => {
+    dispatch({ type: 'RETRY_LEVEL', seed: randomSeed(), now: Date.now() });
   }, []);
 
-  const handleColorClick = useCallback((clickedColor: ColorName) => {
-    if (gameState.gameStatus !== 'playing') return;
-
-    const currentColor = gameState.colorsToClick[gameState.currentColorIndex];
-    const isCorrect = clickedColor !== currentColor;
-
-    if (isCorrect) {
-      // Correct click - move to next color
-      const newIndex = gameState.currentColorIndex + 1;
-      if (newIndex >= gameState.colorsToClick.length) {
-        // Level completed!
-        const timeBonus = Math.floor(gameState.timeRemaining * 10);
-        setGameState(prev => ({
-          ...prev,
-          score: prev.score + 100 + timeBonus,
-          gameStatus: 'completed',
-          isGameActive: false,
-        }));
+  const replayLevel = useCallback(() => {
+    dispatch({ type: 'REPLAY_LEVEL', now: Date.now() });
+  }, []);
+
+  const continueToNextLevel = useCallback(() => {
+    dispatch({ type: 'NEXT_LEVEL', seed: randomSeed(), now: Date.now() });
+  }, []);
+
+  const startGameFromHomepage = useCallback(() => {
+    dispatch({ type: 'SHOW_INTRO' });
+  }, []);
+
+  const returnToHomepage = useCallback(() => {
+    dispatch({ type: 'GO_HOME', now: Date.now() });
+  }, []);
+
+  const setPromptMode = useCallback((promptMode: PromptMode) => {
+    dispatch({ type: 'SET_PROMPT_MODE', promptMode });
+  }, []);
+
+  const pauseGame = useCallback(() => {
+    dispatch({ type: 'PAUSE', now: Date.now() });
+  }, []);
+
+  const resumeGame = useCallback(() => {
+    dispatch({ type: 'RESUME', now: Date.now() });
+  }, []);
+
+  // Pause when the app goes to the background (on web, when the tab is hidden)
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState !== 'active') pauseGame();
+    });
+    return () => subscription.remove();
+  }, [pauseGame]);
+
+  // Cut off a color that is still being spoken
+  useEffect(() => {
+    if (gameState.gameStatus === 'paused') Speech.stop();
+  }, [gameState.gameStatus]);
+
+  // Timer effect - update display every 100ms for accuracy
+  useEffect(() => {
+    if (!gameState.isGameActive) return;
+
+    const timer = setInterval(() => {
+      dispatch({ type: 'TICK', now: Date.now() });
+    }, TICK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [gameState.isGameActive]);
+
+  // Give the current color whenever a new one comes up, and again on resume:
+  // spoken in speech mode (the stop tone for a no-go prompt), otherwise isPromptShown reveals the word on screen.
+  // Levels with spoken rule cues call out the rule first, whatever the prompt mode, when it has just changed;
+  // the color follows once the cue is done and its clock starts then. A cue still speaking when the prompt
+  // moves on or the game pauses is dropped.
+  const currentColor = gameState.colorsToClick[gameState.currentColorIndex];
+  const isNoGoPrompt = gameState.noGoPrompts[gameState.currentColorIndex] ?? false;
+  const currentRule = gameState.promptRules[gameState.currentColorIndex];
+  const isRuleChanged = currentRule !== gameState.promptRules[gameState.currentColorIndex - 1];
+  useEffect(() => {
+    if (gameState.gameStatus !== 'playing' || !currentColor) {
+      setPromptShown(false);
+      return;
+    }
+
+    const sayPrompt = () => {
+      if (gameState.promptMode !== 'speech') return;
+      if (isNoGoPrompt) playEffect('stop');
+      else playColor(currentColor);
+    };
+
+    let isStale = false;
+    const showPrompt = () => {
+      setPromptShown(true);
+      if (isRuleChanged && getActiveLevel(gameState)?.ruleSwitch?.cue === 'voice') {
+        const t = createTranslator(locale);
+        const index = gameState.currentColorIndex;
+        playWord(currentRule === 'pick' ? t('rulePickCue') : t('ruleAvoidCue'), () => {
+          if (isStale) return;
+          dispatch({ type: 'PROMPT_SHOWN', index, now: Date.now() });
+          sayPrompt();
+        });
       } else {
-        setGameState(prev => ({
-          ...prev,
-          currentColorIndex: newIndex,
-        }));
-        // Speak next color
-        speakColor(gameState.colorsToClick[newIndex]);
+        sayPrompt();
       }
-    } else {
-      // Wrong click - game over
-      setGameState(prev => ({
-        ...prev,
-        gameStatus: 'failed',
-        isGameActive: false,
-      }));
+    };
+
+    // Give the player a moment before the first color of a level
+    if (gameState.currentColorIndex === 0) {
+      setPromptShown(false);
+      const timeout = setTimeout(showPrompt, FIRST_PROMPT_DELAY_MS);
+      return () => {
+        isStale = true;
+        clearTimeout(timeout);
+      };
     }
-  }, [gameState, speakColor]);
-
-  const resetGame = useCallback(() => {
-    setGameState({
-      currentLevel: 1,
-      score: 0,
-      timeRemaining: 0,
-      currentColorIndex: 0,
-      colorsToClick: [],
-      availableColors: [],
-      gameStatus: 'waiting',
-      isGameActive: false,
-    });
-  }, []);
+    showPrompt();
+    return () => {
+      isStale = true;
+    };
+  }, [gameState.gameStatus, gameState.currentColorIndex, gameState.levelStartTime]);
+
+  // Last seconds on the level clock; prompt deadlines are too short to count down
+  useEffect(() => {
+    const { gameStatus, levelTimeLimit, timeRemaining } = gameState;
+    if (gameStatus === 'playing' && levelTimeLimit > 0 && timeRemaining > 0 && timeRemaining <= COUNTDOWN_TICK_SECONDS) {
+      playEffect('tick');
+    }
+  }, [gameState.timeRemaining]);
+
+  // One haptic and sound per new prompt record; the log starts over with each level
+  useEffect(() => {
+    const { promptLog } = gameState;
+    if (promptLog.length > feltPromptCount.current) {
+      const record = promptLog[promptLog.length - 1];
+      playAnswerHaptic(record);
+      playEffect(record.isCorrect ? 'correct' : 'wrong');
+    }
+    feltPromptCount.current = promptLog.length;
+  }, [gameState.promptLog]);
+
+  // Levels unlocked in earlier sessions, or all of them anew once another profile's progress is in
+  useEffect(() => {
+    if (!progress) return;
+    const isSwitch = loadedStore.current !== null && loadedStore.current !== store;
+    loadedStore.current = store;
+    dispatch({ type: isSwitch ? 'SWITCH_PROFILE' : 'LOAD_PROGRESS', unlockedLevels: progress.unlockedLevels });
+  }, [progress?.unlockedLevels]);
+
+  const announceBadges = (earned: AchievementId[]) => {
+    if (earned.length > 0) setEarnedBadges(queue => [...queue, ...earned]);
+  };
 
-  // Timer effect
+  // Save each level attempt once, as soon as it ends
   useEffect(() => {
-    if (gameState.isGameActive && gameState.timeRemaining > 0) {
-      const timer = setTimeout(() => {
-        setGameState(prev => ({
-          ...prev,
-          timeRemaining: prev.timeRemaining - 1,
-        }));
-      }, 1000);
-
-      return () => clearTimeout(timer);
-    } else if (gameState.isGameActive && gameState.timeRemaining === 0) {
-      // Time's up - game over
-      setGameState(prev => ({
-        ...prev,
-        gameStatus: 'failed',
-        isGameActive: false,
-      }));
+    const { gameStatus, levelStartTime } = gameState;
+    if (gameStatus !== 'levelSummary' && gameStatus !== 'failed') return;
+    if (recordedLevelStart.current === levelStartTime) return;
+    recordedLevelStart.current = levelStartTime;
+    if (gameStatus === 'levelSummary' && gameState.levelSummary.total >= 0) playEffect('levelComplete');
+
+    if (gameState.mode === 'endless') {
+      recordEndlessResult({ score: gameState.score, bestStreak: gameState.bestStreak });
+      return;
+    }
+    if (gameState.mode === 'adaptive') {
+      recordAdaptiveResult({ score: gameState.score, model: gameState.playerModel });
+      return;
+    }
+    if (gameState.mode === 'practice') {
+      recordPracticeResult({
+        levelId: gameState.currentLevel,
+        correctCount: gameState.correctCount,
+        mistakeCount: gameState.mistakeCount,
+        promptCount: gameState.colorsToClick.length,
+        durationMs: gameState.levelDurationMs,
+      });
+      return;
     }
-  }, [gameState.isGameActive, gameState.timeRemaining]);
+    if (gameState.mode === 'daily') {
+      recordDailyResult({
+        date: gameState.challengeDate,
+        score: gameState.score,
+        durationMs: gameState.levelDurationMs,
+        marks: getResultMarks(gameState.promptLog),
+      });
+      announceBadges(recordGameEvent({ type: 'dailyPlayed' }));
+      return;
+    }
+    const isCompleted = gameState.levelSummary.total > 0;
+    recordLevelResult({
+      levelId: gameState.currentLevel,
+      completed: isCompleted,
+      levelScore: gameState.levelSummary.total,
+      runScore: gameState.score,
+      durationMs: gameState.levelDurationMs,
+      isGameOver: gameStatus === 'failed',
+      unlockedLevels: gameState.unlockedLevels,
+    });
+    announceBadges(recordGameEvent(isCompleted
+      ? {
+        type: 'levelCompleted',
+        levelId: gameState.currentLevel,
+        livesLeft: gameState.lives,
+        averageReactionMs: analyzePrompts(gameState.promptLog).averageReactionMs,
+      }
+      : { type: 'levelFailed', levelId: gameState.currentLevel }));
+  }, [gameState.gameStatus, gameState.levelStartTime]);
 
   return {
     gameState,
+    isPromptShown,
+    progress,
+    lastReplay,
+    earnedBadges,
+    dismissBadge,
     startLevel,
+    startEndless,
+    startDaily,
+    startPractice,
+    startAdaptive,
     handleColorClick,
-    resetGame,
-    speakColor,
+    retryLevel,
+    replayLevel,
+    continueToNextLevel,
+    startGameFromHomepage,
+    returnToHomepage,
+    setPromptMode,
+    pauseGame,
+    resumeGame,
   };
 };
 
@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+
+interface KeyboardControlsOptions {
+  isPlaying: boolean;
+  isPaused: boolean;
+  tileCount: number;
+  columns: number;
+  onTap: (tileIndex: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+// Pointer-free play on web: number keys tap a tile directly, arrow keys move a
+// focus ring over the grid and Enter/Space taps it, Escape pauses or resumes.
+// Returns the focused tile so the grid can draw the ring.
+const useKeyboardControls = (options: KeyboardControlsOptions) => {
+  const [focusedTile, setFocusedTile] = useState<number | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const focusedRef = useRef(focusedTile);
+  focusedRef.current = focusedTile;
+
+  // A new grid size or leaving play drops the ring
+  useEffect(() => {
+    setFocusedTile(null);
+  }, [options.tileCount, options.isPlaying]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { isPlaying, isPaused, tileCount, columns, onTap, onPause, onResume } = optionsRef.current;
+
+      if (event.key === 'Escape') {
+        if (isPlaying) onPause();
+        else if (isPaused) onResume();
+        return;
+      }
+      if (!isPlaying || tileCount === 0) return;
+
+      const digit = Number(event.key);
+      if (Number.isInteger(digit) && digit >= 1 && digit <= tileCount) {
+        setFocusedTile(digit - 1);
+        onTap(digit - 1);
+        return;
+      }
+
+      const current = focusedRef.current;
+      const moves: Record<string, number> = {
+        ArrowLeft: -1,
+        ArrowRight: 1,
+        ArrowUp: -columns,
+        ArrowDown: columns,
+      };
+      if (event.key in moves) {
+        event.preventDefault();
+        const next = current === null ? 0 : current + moves[event.key];
+        if (next >= 0 && next < tileCount) setFocusedTile(next);
+        return;
+      }
+      if ((event.key === 'Enter' || event.key === ' ') && current !== null) {
+        event.preventDefault();
+        onTap(current);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return focusedTile;
+};
+
+export default useKeyboardControls;
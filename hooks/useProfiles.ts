@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ColorName } from '../types/GameTypes';
+import { ProfileList } from '../types/ProfileTypes';
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { defaultStore } from '../storage/DefaultStore';
+import { clearProgress } from '../storage/ProgressStorage';
+import {
+  MAX_PROFILES,
+  MAX_PROFILE_NAME_LENGTH,
+  clearProfileData,
+  createDefaultProfiles,
+  getProfileStore,
+  loadProfiles,
+  saveProfiles,
+} from '../storage/ProfileStorage';
+
+const createProfileId = () => `${Date.now().toString(36)}${Math.floor(Math.random() * 36 ** 4).toString(36)}`;
+
+// Players sharing the device. activeStore is where the active player's progress and settings
+// live; it is a new object whenever that player changes or is reset, so hooks keyed on it reload.
+const useProfiles = (store: KeyValueStore = defaultStore) => {
+  const [list, setList] = useState<ProfileList>(createDefaultProfiles);
+  const listRef = useRef(list);
+  const [resetCount, setResetCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProfiles(store).then(loaded => {
+      if (cancelled) return;
+      listRef.current = loaded;
+      setList(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const updateList = useCallback((update: (current: ProfileList) => ProfileList) => {
+    const next = update(listRef.current);
+    listRef.current = next;
+    setList(next);
+    saveProfiles(store, next);
+  }, [store]);
+
+  const createProfile = useCallback((name: string, avatarColor: ColorName) => {
+    if (listRef.current.profiles.length >= MAX_PROFILES) return;
+    const profile = {
+      id: createProfileId(),
+      name: name.trim().slice(0, MAX_PROFILE_NAME_LENGTH),
+      avatarColor,
+      createdAt: Date.now(),
+    };
+    updateList(current => ({ ...current, profiles: [...current.profiles, profile], activeId: profile.id }));
+  }, [updateList]);
+
+  const switchProfile = useCallback((profileId: string) => {
+    if (!listRef.current.profiles.some(profile => profile.id === profileId)) return;
+    updateList(current => ({ ...current, activeId: profileId }));
+  }, [updateList]);
+
+  // The last profile cannot be deleted, only reset
+  const deleteProfile = useCallback((profileId: string) => {
+    const remaining = listRef.current.profiles.filter(profile => profile.id !== profileId);
+    if (remaining.length === 0) return;
+
+    clearProfileData(store, profileId);
+    updateList(current => ({
+      ...current,
+      profiles: remaining,
+      activeId: current.activeId === profileId ? remaining[0].id : current.activeId,
+    }));
+  }, [store, updateList]);
+
+  // Progress starts over; the profile and its settings stay
+  const resetProfile = useCallback(async (profileId: string) => {
+    await clearProgress(getProfileStore(store, profileId));
+    if (profileId === listRef.current.activeId) setResetCount(count => count + 1);
+  }, [store]);
+
+  const activeProfile = list.profiles.find(profile => profile.id === list.activeId) ?? list.profiles[0];
+  const activeStore = useMemo(
+    () => ({ ...getProfileStore(store, activeProfile.id) }),
+    [store, activeProfile.id, resetCount],
+  );
+
+  return {
+    profiles: list.profiles,
+    activeProfile,
+    activeStore,
+    createProfile,
+    switchProfile,
+    deleteProfile,
+    resetProfile,
+  };
+};
+
+export default useProfiles;
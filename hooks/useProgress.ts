@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AchievementId, GameEvent } from '../types/AchievementTypes';
+import {
+  AdaptiveResult,
+  DailyResult,
+  EndlessResult,
+  LevelResult,
+  PlayerProgress,
+  PracticeResult,
+} from '../types/ProgressTypes';
+import { applyGameEvent } from '../engine/Achievements';
+import {
+  applyAdaptiveResult,
+  applyDailyResult,
+  applyDailyStart,
+  applyEndlessResult,
+  applyLevelResult,
+  applyPracticeResult,
+} from '../engine/Progress';
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { defaultStore } from '../storage/DefaultStore';
+import { loadProgress, saveProgress } from '../storage/ProgressStorage';
+
+// Loads saved progress once and writes it back after every change.
+// progress is null until the first load finishes, and again while a new store loads.
+const useProgress = (store: KeyValueStore = defaultStore) => {
+  const [progress, setProgress] = useState<PlayerProgress | null>(null);
+  const progressRef = useRef<PlayerProgress | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    progressRef.current = null;
+    setProgress(null);
+    loadProgress(store).then(loaded => {
+      if (cancelled) return;
+      progressRef.current = loaded;
+      setProgress(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const updateProgress = useCallback((update: (current: PlayerProgress) => PlayerProgress) => {
+    const current = progressRef.current;
+    if (!current) return;
+
+    const next = update(current);
+    progressRef.current = next;
+    setProgress(next);
+    saveProgress(store, next);
+  }, [store]);
+
+  const recordLevelResult = useCallback((result: LevelResult) => {
+    updateProgress(current => applyLevelResult(current, result));
+  }, [updateProgress]);
+
+  const recordEndlessResult = useCallback((result: EndlessResult) => {
+    updateProgress(current => applyEndlessResult(current, result));
+  }, [updateProgress]);
+
+  const recordDailyStart = useCallback((date: string) => {
+    updateProgress(current => applyDailyStart(current, date));
+  }, [updateProgress]);
+
+  const recordDailyResult = useCallback((result: DailyResult) => {
+    updateProgress(current => applyDailyResult(current, result));
+  }, [updateProgress]);
+
+  const recordPracticeResult = useCallback((result: PracticeResult) => {
+    updateProgress(current => applyPracticeResult(current, result));
+  }, [updateProgress]);
+
+  const recordAdaptiveResult = useCallback((result: AdaptiveResult) => {
+    updateProgress(current => applyAdaptiveResult(current, result));
+  }, [updateProgress]);
+
+  // Returns the badges the event earned, if any
+  const recordGameEvent = useCallback((event: GameEvent) => {
+    let earned: AchievementId[] = [];
+    updateProgress(current => {
+      const applied = applyGameEvent(current, event, Date.now());
+      earned = applied.earned;
+      return applied.progress;
+    });
+    return earned;
+  }, [updateProgress]);
+
+  return {
+    progress,
+    updateProgress,
+    recordLevelResult,
+    recordEndlessResult,
+    recordDailyStart,
+    recordDailyResult,
+    recordPracticeResult,
+    recordAdaptiveResult,
+    recordGameEvent,
+  };
+};
+
+export default useProgress;
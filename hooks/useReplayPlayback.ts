@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import { Replay } from '../types/ReplayTypes';
+import { buildReplayFrames, matchesOutcome } from '../engine/Replay';
+
+const PLAYBACK_INTERVAL_MS = 100;
+
+// Steps a replay's frames along a playback clock; speed multiplies how fast the clock runs
+const useReplayPlayback = (replay: Replay | null) => {
+  const frames = useMemo(() => (replay ? buildReplayFrames(replay) : []), [replay]);
+  const [clock, setClock] = useState(0);
+  const [isPlaying, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const endAt = frames.length > 0 ? frames[frames.length - 1].at : 0;
+
+  // A new replay starts playing from the beginning
+  useEffect(() => {
+    setClock(0);
+    setPlaying(replay !== null);
+  }, [replay]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      setClock(current => current + PLAYBACK_INTERVAL_MS * speed);
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, speed]);
+
+  useEffect(() => {
+    if (clock >= endAt) setPlaying(false);
+  }, [clock, endAt]);
+
+  // Last frame at or before the clock
+  let frameIndex = 0;
+  while (frameIndex + 1 < frames.length && frames[frameIndex + 1].at <= clock) frameIndex++;
+
+  const play = useCallback(() => {
+    setClock(current => (current >= endAt ? 0 : current));
+    setPlaying(true);
+  }, [endAt]);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const restart = useCallback(() => {
+    setClock(0);
+    setPlaying(true);
+  }, []);
+
+  const step = useCallback(() => {
+    setPlaying(false);
+    const next = frames[frameIndex + 1];
+    if (next) setClock(next.at);
+  }, [frames, frameIndex]);
+
+  const lastFrame = frames[frames.length - 1];
+  return {
+    frame: frames[frameIndex] ?? null,
+    clock: Math.min(clock, endAt),
+    endAt,
+    isPlaying,
+    speed,
+    setSpeed,
+    play,
+    pause,
+    restart,
+    step,
+    matchesRecording: replay !== null && lastFrame !== undefined && matchesOutcome(replay, lastFrame.state),
+  };
+};
+
+export default useReplayPlayback;
@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PlayerSettings } from '../types/SettingsTypes';
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { defaultStore } from '../storage/DefaultStore';
+import { createDefaultSettings, loadSettings, saveSettings } from '../storage/SettingsStorage';
+
+// Player settings, usable right away with defaults and replaced once the saved ones load
+const useSettings = (store: KeyValueStore = defaultStore) => {
+  const [settings, setSettings] = useState<PlayerSettings>(createDefaultSettings);
+  const settingsRef = useRef(settings);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSettings(store).then(loaded => {
+      if (cancelled) return;
+      settingsRef.current = loaded;
+      setSettings(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const updateSettings = useCallback((changes: Partial<PlayerSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    settingsRef.current = next;
+    setSettings(next);
+    saveSettings(store, next);
+  }, [store]);
+
+  return { settings, updateSettings };
+};
+
+export default useSettings;
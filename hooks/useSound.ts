@@ -0,0 +1,101 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { Audio, AVPlaybackSource } from 'expo-av';
+import { ColorName } from '../types/GameTypes';
+import { Locale } from '../types/LocaleTypes';
+import { SoundEffect } from '../types/SoundTypes';
+import { COLOR_CLIPS, EFFECT_CLIPS } from '../data/SoundClips';
+import useVoice, { speakColor, speakText } from './useVoice';
+
+type LoadedClips<K extends string> = Partial<Record<K, Audio.Sound>>;
+
+// Load every clip up front so playing one later has no loading delay; clips that fail to load are skipped
+const loadClips = async <K extends string>(sources: Partial<Record<K, AVPlaybackSource>>) => {
+  const loaded: LoadedClips<K> = {};
+  for (const key of Object.keys(sources) as K[]) {
+    const source = sources[key];
+    if (!source) continue;
+    try {
+      const { sound } = await Audio.Sound.createAsync(source);
+      loaded[key] = sound;
+    } catch (error) {
+      console.log('Sound load error:', error);
+    }
+  }
+  return loaded;
+};
+
+const unloadClips = <K extends string>(clips: LoadedClips<K>) => {
+  Object.values<Audio.Sound | undefined>(clips).forEach(sound => sound?.unloadAsync());
+};
+
+const playClip = async (sound: Audio.Sound, volume: number) => {
+  try {
+    await sound.replayAsync({ volume });
+  } catch (error) {
+    console.log('Sound play error:', error);
+  }
+};
+
+// Effects and color names from preloaded clips, which start with the same short delay on
+// every device, unlike text-to-speech. Colors whose clip did not load fall back to TTS.
+const useSound = (locale: Locale, volume: number, isMuted: boolean) => {
+  const voice = useVoice(locale);
+  const effects = useRef<LoadedClips<SoundEffect>>({});
+  const colorClips = useRef<LoadedClips<ColorName>>({});
+  // Mute only covers the effects: speech-mode prompts and spoken cues are needed to play at all
+  const effectLevel = isMuted ? 0 : volume;
+
+  // Play through the iOS silent switch like the spoken colors do
+  useEffect(() => {
+    Audio.setAudioModeAsync({ playsInSilentModeIOS: true }).catch(error => {
+      console.log('Audio mode error:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadClips(EFFECT_CLIPS).then(loaded => {
+      if (cancelled) unloadClips(loaded);
+      else effects.current = loaded;
+    });
+    return () => {
+      cancelled = true;
+      unloadClips(effects.current);
+      effects.current = {};
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadClips(COLOR_CLIPS[locale.code]).then(loaded => {
+      if (cancelled) unloadClips(loaded);
+      else colorClips.current = loaded;
+    });
+    return () => {
+      cancelled = true;
+      unloadClips(colorClips.current);
+      colorClips.current = {};
+    };
+  }, [locale.code]);
+
+  const playEffect = useCallback((effect: SoundEffect) => {
+    const sound = effects.current[effect];
+    if (sound && effectLevel > 0) playClip(sound, effectLevel);
+  }, [effectLevel]);
+
+  const playColor = useCallback((color: ColorName) => {
+    const sound = colorClips.current[color];
+    if (sound) playClip(sound, volume);
+    else speakColor(color, locale, voice, volume);
+  }, [volume, locale, voice]);
+
+  // Spoken cues such as a rule change; onDone is where the color that follows is given, so
+  // a color clip does not talk over the cue
+  const playWord = useCallback((text: string, onDone?: () => void) => {
+    speakText(text, locale, voice, volume, onDone);
+  }, [volume, locale, voice]);
+
+  return { playEffect, playColor, playWord };
+};
+
+export default useSound;
@@ -0,0 +1,100 @@
+import { useReducer, useEffect, useCallback, useState } from 'react';
+import { AppState } from 'react-native';
+import { PromptMode } from '../types/GameTypes';
+import { Locale } from '../types/LocaleTypes';
+import { PlayerSettings } from '../types/SettingsTypes';
+import { VersusLayout } from '../types/VersusTypes';
+import { FIRST_PROMPT_DELAY_MS } from '../engine/GameEngine';
+import { versusReducer, createVersusState } from '../engine/VersusEngine';
+import { randomSeed } from '../engine/Random';
+import useSound from './useSound';
+import * as Speech from 'expo-speech';
+
+const TICK_INTERVAL_MS = 100;
+
+// React binding for the versus rules: same timer and prompt handling as useGameLogic,
+// with one spoken color shared by both players in split screen.
+const useVersusLogic = (locale: Locale, audio: Pick<PlayerSettings, 'volume' | 'isMuted'>) => {
+  const [versusState, dispatch] = useReducer(versusReducer, undefined, createVersusState);
+  const { playEffect, playColor } = useSound(locale, audio.volume, audio.isMuted);
+  const [isPromptShown, setPromptShown] = useState(false);
+
+  const startMatch = useCallback((layout: VersusLayout, levelId: number, promptMode: PromptMode) => {
+    dispatch({ type: 'START_VERSUS', layout, levelId, promptMode });
+  }, []);
+
+  const beginTurn = useCallback(() => {
+    dispatch({ type: 'BEGIN_TURN', seed: randomSeed(), now: Date.now() });
+  }, []);
+
+  const handleTap = useCallback((player: number, tileIndex: number) => {
+    playEffect('tap');
+    dispatch({ type: 'TAP', player, tileIndex, now: Date.now() });
+  }, [playEffect]);
+
+  const pauseMatch = useCallback(() => {
+    dispatch({ type: 'PAUSE', now: Date.now() });
+  }, []);
+
+  const resumeMatch = useCallback(() => {
+    dispatch({ type: 'RESUME', now: Date.now() });
+  }, []);
+
+  const rematch = useCallback(() => {
+    dispatch({ type: 'REMATCH' });
+  }, []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState !== 'active') pauseMatch();
+    });
+    return () => subscription.remove();
+  }, [pauseMatch]);
+
+  useEffect(() => {
+    if (versusState.status === 'paused') Speech.stop();
+  }, [versusState.status]);
+
+  useEffect(() => {
+    if (!versusState.isActive) return;
+
+    const timer = setInterval(() => {
+      dispatch({ type: 'TICK', now: Date.now() });
+    }, TICK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [versusState.isActive]);
+
+  const currentColor = versusState.colorsToClick[versusState.currentColorIndex];
+  useEffect(() => {
+    if (versusState.status !== 'playing' || !currentColor) {
+      setPromptShown(false);
+      return;
+    }
+
+    const showPrompt = () => {
+      setPromptShown(true);
+      if (versusState.promptMode === 'speech') playColor(currentColor);
+    };
+
+    if (versusState.currentColorIndex === 0) {
+      setPromptShown(false);
+      const timeout = setTimeout(showPrompt, FIRST_PROMPT_DELAY_MS);
+      return () => clearTimeout(timeout);
+    }
+    showPrompt();
+  }, [versusState.status, versusState.currentColorIndex, versusState.turnStartTime]);
+
+  return {
+    versusState,
+    isPromptShown,
+    startMatch,
+    beginTurn,
+    handleTap,
+    pauseMatch,
+    resumeMatch,
+    rematch,
+  };
+};
+
+export default useVersusLogic;
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { ColorName } from '../types/GameTypes';
+import { Locale } from '../types/LocaleTypes';
+import * as Speech from 'expo-speech';
+
+// onDone runs once the text has been spoken, or straight away if speaking it failed
+export const speakText = async (text: string, locale: Locale, voice?: string, volume = 1, onDone?: () => void) => {
+  try {
+    await Speech.speak(text, {
+      language: locale.speechLanguage,
+      voice,
+      volume,
+      pitch: 1.0,
+      rate: 0.8,
+      onDone,
+      onError: onDone,
+    });
+  } catch (error) {
+    console.log('Speech error:', error);
+  }
+};
+
+export const speakColor = (color: ColorName, locale: Locale, voice?: string, volume = 1) =>
+  speakText(locale.colors[color], locale, voice, volume);
+
+// Installed voice for a language code, exact match first (fr-FR), then same language (fr-CA)
+const findVoice = async (language: string) => {
+  try {
+    const voices = await Speech.getAvailableVoicesAsync();
+    const prefix = language.split('-')[0];
+    const voice = voices.find(v => v.language === language)
+      ?? voices.find(v => v.language.split(/[-_]/)[0] === prefix);
+    return voice?.identifier;
+  } catch (error) {
+    console.log('Voice lookup error:', error);
+    return undefined;
+  }
+};
+
+// Voice for the selected language; undefined until found, and without one the platform default is used
+const useVoice = (locale: Locale) => {
+  const [voice, setVoice] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setVoice(undefined);
+    findVoice(locale.speechLanguage).then(found => {
+      if (!cancelled) setVoice(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [locale.speechLanguage]);
+
+  return voice;
+};
+
+export default useVoice;
@@ -0,0 +1,26 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyValueStore, createLocalStorageStore, createMemoryStore } from './KeyValueStore';
+
+const createAsyncStorageStore = (): KeyValueStore => ({
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+});
+
+const createDefaultStore = (): KeyValueStore => {
+  if (Platform.OS !== 'web') {
+    return createAsyncStorageStore();
+  }
+  // localStorage is missing during static rendering and can throw in private browsing
+  try {
+    if (typeof globalThis.localStorage !== 'undefined') {
+      return createLocalStorageStore();
+    }
+  } catch (error) {
+    console.log('localStorage unavailable:', error);
+  }
+  return createMemoryStore();
+};
+
+export const defaultStore = createDefaultStore();
@@ -0,0 +1,36 @@
+// Minimal async key-value interface the persistence layer is written against.
+// Web uses localStorage, native uses AsyncStorage (see DefaultStore.ts) and
+// tests can hand in the in-memory store.
+
+export interface KeyValueStore {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export const createMemoryStore = (initial: Record<string, string> = {}): KeyValueStore => {
+  const data = new Map(Object.entries(initial));
+
+  return {
+    getItem: async (key) => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: async (key) => {
+      data.delete(key);
+    },
+  };
+};
+
+export const createLocalStorageStore = (storage: Storage = globalThis.localStorage): KeyValueStore => ({
+  getItem: async (key) => storage.getItem(key),
+  setItem: async (key, value) => storage.setItem(key, value),
+  removeItem: async (key) => storage.removeItem(key),
+});
+
+// Same store with every key under a prefix, so several players' saves can sit side by side
+export const createPrefixedStore = (store: KeyValueStore, prefix: string): KeyValueStore => ({
+  getItem: (key) => store.getItem(prefix + key),
+  setItem: (key, value) => store.setItem(prefix + key, value),
+  removeItem: (key) => store.removeItem(prefix + key),
+});
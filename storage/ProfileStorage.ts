@@ -0,0 +1,69 @@
+import { PlayerProfile, ProfileList } from '../types/ProfileTypes';
+import { GAME_COLORS } from '../types/GameTypes';
+import { KeyValueStore, createPrefixedStore } from './KeyValueStore';
+import { clearProgress } from './ProgressStorage';
+import { clearSettings } from './SettingsStorage';
+
+const PROFILES_KEY = 'colorgame.profiles';
+
+export const PROFILES_SCHEMA_VERSION = 1;
+export const MAX_PROFILES = 8;
+export const MAX_PROFILE_NAME_LENGTH = 16;
+
+// The first profile keeps the unprefixed keys, so saves from before profiles existed become its own
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const createDefaultProfiles = (): ProfileList => ({
+  version: PROFILES_SCHEMA_VERSION,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: '', avatarColor: 'blue', createdAt: 0 }],
+  activeId: DEFAULT_PROFILE_ID,
+});
+
+// Where one profile's progress and settings are kept
+export const getProfileStore = (store: KeyValueStore, profileId: string): KeyValueStore =>
+  profileId === DEFAULT_PROFILE_ID ? store : createPrefixedStore(store, `profile.${profileId}.`);
+
+const isProfile = (value: unknown): value is PlayerProfile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const profile = value as Record<string, unknown>;
+  return typeof profile.id === 'string' && typeof profile.name === 'string'
+    && typeof profile.avatarColor === 'string' && Object.prototype.hasOwnProperty.call(GAME_COLORS, profile.avatarColor)
+    && typeof profile.createdAt === 'number';
+};
+
+// Drop anything malformed; there is always at least one profile and the active one exists
+export const migrateProfiles = (data: Record<string, unknown>): ProfileList => {
+  const profiles = Array.isArray(data.profiles) ? data.profiles.filter(isProfile) : [];
+  if (profiles.length === 0) return createDefaultProfiles();
+
+  const activeProfile = profiles.find(profile => profile.id === data.activeId);
+  return {
+    version: PROFILES_SCHEMA_VERSION,
+    profiles,
+    activeId: (activeProfile ?? profiles[0]).id,
+  };
+};
+
+export const loadProfiles = async (store: KeyValueStore): Promise<ProfileList> => {
+  try {
+    const raw = await store.getItem(PROFILES_KEY);
+    return raw ? migrateProfiles(JSON.parse(raw)) : createDefaultProfiles();
+  } catch (error) {
+    console.log('Profiles load error:', error);
+    return createDefaultProfiles();
+  }
+};
+
+export const saveProfiles = async (store: KeyValueStore, list: ProfileList) => {
+  try {
+    await store.setItem(PROFILES_KEY, JSON.stringify(list));
+  } catch (error) {
+    console.log('Profiles save error:', error);
+  }
+};
+
+// Everything saved for a profile, for when it is deleted
+export const clearProfileData = async (store: KeyValueStore, profileId: string) => {
+  const profileStore = getProfileStore(store, profileId);
+  await Promise.all([clearProgress(profileStore), clearSettings(profileStore)]);
+};
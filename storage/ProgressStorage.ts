@@ -0,0 +1,166 @@
+import { AchievementRecord } from '../types/AchievementTypes';
+import { AdaptiveRecord, DailyRecord, DailyResult, LevelRecord, PlayerProgress, PracticeRecord } from '../types/ProgressTypes';
+import { getAchievement } from '../data/Achievements';
+import { readPlayerModel } from '../data/AdaptiveMode';
+import { PROGRESS_SCHEMA_VERSION, createInitialProgress } from '../engine/Progress';
+import { KeyValueStore } from './KeyValueStore';
+
+const PROGRESS_KEY = 'colorgame.progress';
+
+type StoredData = Record<string, unknown>;
+
+// Stored JSON read as an object; anything else reads as empty
+const asStoredData = (value: unknown): StoredData =>
+  typeof value === 'object' && value !== null ? value as StoredData : {};
+
+// Each entry upgrades data saved at that version to the next one.
+// Add a step here (and bump PROGRESS_SCHEMA_VERSION) whenever PlayerProgress changes shape.
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {
+  // v2 added endless mode records
+  1: (data) => ({ ...data, endless: { bestScore: 0, bestStreak: 0, runsPlayed: 0 } }),
+  // v3 added the daily challenge record
+  2: (data) => ({ ...data, daily: createInitialProgress().daily }),
+  // v4 added practice records
+  3: (data) => ({ ...data, practice: {} }),
+  // v5 added achievements
+  4: (data) => ({ ...data, achievements: createInitialProgress().achievements }),
+  // v6 added adaptive mode and its player model
+  5: (data) => ({ ...data, adaptive: createInitialProgress().adaptive }),
+  // v7 added the date the last daily run was started
+  6: (data) => ({ ...data, daily: { ...asStoredData(data.daily), startedDate: null } }),
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'number');
+
+// Stored numbers for each known key, defaults for anything missing or mistyped
+const pickNumbers = <T extends object>(defaults: T, stored: unknown): T => {
+  const result = { ...defaults } as StoredData;
+  const source = asStoredData(stored);
+  for (const key of Object.keys(result)) {
+    if (typeof source[key] === 'number') result[key] = source[key];
+  }
+  return result as T;
+};
+
+const isNumberOrNull = (value: unknown): value is number | null => value === null || typeof value === 'number';
+
+// Records kept per level id; entries with a missing or mistyped field are dropped
+const pickRecordsById = <T>(stored: unknown, isRecord: (value: unknown) => value is T): Record<number, T> => {
+  const records: Record<string, T> = {};
+  for (const [id, record] of Object.entries(asStoredData(stored))) {
+    if (isRecord(record)) records[id] = record;
+  }
+  return records;
+};
+
+const isLevelRecord = (value: unknown): value is LevelRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as StoredData;
+  return typeof record.bestScore === 'number' && isNumberOrNull(record.bestTimeMs);
+};
+
+const isPracticeRecord = (value: unknown): value is PracticeRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as StoredData;
+  return typeof record.sessions === 'number' && typeof record.bestAccuracy === 'number'
+    && isNumberOrNull(record.bestTimeMs);
+};
+
+const isDailyResult = (value: unknown): value is DailyResult => {
+  if (typeof value !== 'object' || value === null) return false;
+  const result = value as StoredData;
+  return typeof result.date === 'string' && typeof result.score === 'number'
+    && typeof result.durationMs === 'number' && typeof result.marks === 'string';
+};
+
+const pickDaily = (defaults: DailyRecord, stored: unknown): DailyRecord => {
+  const source = asStoredData(stored);
+  return {
+    ...pickNumbers(defaults, source),
+    lastPlayedDate: typeof source.lastPlayedDate === 'string' ? source.lastPlayedDate : null,
+    startedDate: typeof source.startedDate === 'string' ? source.startedDate : null,
+    lastResult: isDailyResult(source.lastResult) ? source.lastResult : null,
+  };
+};
+
+const pickAdaptive = (defaults: AdaptiveRecord, stored: unknown): AdaptiveRecord => {
+  const source = asStoredData(stored);
+  return {
+    ...pickNumbers({ bestScore: defaults.bestScore, runsPlayed: defaults.runsPlayed }, source),
+    model: readPlayerModel(source.model),
+  };
+};
+
+// Badges that no longer exist are dropped
+const pickAchievements = (defaults: AchievementRecord, stored: unknown): AchievementRecord => {
+  const source = asStoredData(stored);
+  const unlocked = asStoredData(source.unlocked);
+  return {
+    ...pickNumbers({ flawlessLevels: defaults.flawlessLevels }, source),
+    unlocked: Object.fromEntries(
+      Object.entries(unlocked).filter(([id, time]) => getAchievement(id) && typeof time === 'number'),
+    ),
+  };
+};
+
+// Run pending migrations, then keep only fields that have the expected type so a
+// half-written or hand-edited save never crashes the game. A save from a newer app
+// version is read the same way, for the fields this one understands.
+export const migrateProgress = (data: StoredData): PlayerProgress => {
+  let migrated = data;
+  let version = typeof data.version === 'number' ? data.version : 0;
+
+  while (version < PROGRESS_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) migrated = migrate(migrated);
+    version++;
+  }
+
+  const defaults = createInitialProgress();
+  const stats = pickNumbers(defaults.stats, migrated.stats);
+  const endless = pickNumbers(defaults.endless, migrated.endless);
+  const daily = pickDaily(defaults.daily, migrated.daily);
+
+  return {
+    ...defaults,
+    unlockedLevels: isNumberArray(migrated.unlockedLevels) && migrated.unlockedLevels.length > 0
+      ? migrated.unlockedLevels
+      : defaults.unlockedLevels,
+    levelRecords: pickRecordsById(migrated.levelRecords, isLevelRecord),
+    endless,
+    daily,
+    practice: pickRecordsById(migrated.practice, isPracticeRecord),
+    adaptive: pickAdaptive(defaults.adaptive, migrated.adaptive),
+    achievements: pickAchievements(defaults.achievements, migrated.achievements),
+    stats,
+  };
+};
+
+export const loadProgress = async (store: KeyValueStore): Promise<PlayerProgress> => {
+  try {
+    const raw = await store.getItem(PROGRESS_KEY);
+    if (!raw) return createInitialProgress();
+
+    return migrateProgress(JSON.parse(raw));
+  } catch (error) {
+    console.log('Progress load error:', error);
+    return createInitialProgress();
+  }
+};
+
+export const saveProgress = async (store: KeyValueStore, progress: PlayerProgress) => {
+  try {
+    await store.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.log('Progress save error:', error);
+  }
+};
+
+export const clearProgress = async (store: KeyValueStore) => {
+  try {
+    await store.removeItem(PROGRESS_KEY);
+  } catch (error) {
+    console.log('Progress clear error:', error);
+  }
+};
@@ -0,0 +1,58 @@
+import { PlayerSettings } from '../types/SettingsTypes';
+import { detectLocale, isLocaleCode } from '../data/Locales';
+import { DEFAULT_PALETTE, isPaletteId } from '../data/Palettes';
+import { DEFAULT_VOLUME } from '../data/SoundClips';
+import { KeyValueStore } from './KeyValueStore';
+
+const SETTINGS_KEY = 'colorgame.settings';
+
+export const SETTINGS_SCHEMA_VERSION = 3;
+
+export const createDefaultSettings = (): PlayerSettings => ({
+  version: SETTINGS_SCHEMA_VERSION,
+  locale: detectLocale(),
+  palette: DEFAULT_PALETTE,
+  showPatterns: false,
+  volume: DEFAULT_VOLUME,
+  isMuted: false,
+});
+
+// Keep stored values that are still valid, defaults for the rest.
+// v1 had no palette or patterns and v2 no sound settings, so those simply fall back to the defaults.
+export const migrateSettings = (data: Record<string, unknown>): PlayerSettings => {
+  const defaults = createDefaultSettings();
+  return {
+    ...defaults,
+    locale: isLocaleCode(data.locale) ? data.locale : defaults.locale,
+    palette: isPaletteId(data.palette) ? data.palette : defaults.palette,
+    showPatterns: typeof data.showPatterns === 'boolean' ? data.showPatterns : defaults.showPatterns,
+    volume: typeof data.volume === 'number' && data.volume >= 0 && data.volume <= 1 ? data.volume : defaults.volume,
+    isMuted: typeof data.isMuted === 'boolean' ? data.isMuted : defaults.isMuted,
+  };
+};
+
+export const loadSettings = async (store: KeyValueStore): Promise<PlayerSettings> => {
+  try {
+    const raw = await store.getItem(SETTINGS_KEY);
+    return raw ? migrateSettings(JSON.parse(raw)) : createDefaultSettings();
+  } catch (error) {
+    console.log('Settings load error:', error);
+    return createDefaultSettings();
+  }
+};
+
+export const saveSettings = async (store: KeyValueStore, settings: PlayerSettings) => {
+  try {
+    await store.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.log('Settings save error:', error);
+  }
+};
+
+export const clearSettings = async (store: KeyValueStore) => {
+  try {
+    await store.removeItem(SETTINGS_KEY);
+  } catch (error) {
+    console.log('Settings clear error:', error);
+  }
+};
@@ -0,0 +1,22 @@
+import { UiStringKey } from './LocaleTypes';
+
+export type AchievementId = 'firstClear' | 'noDamageRun' | 'quickReflexes' | 'dailyWeek' | 'levelSixFullLives';
+
+// What the game reports once a level or daily has been saved; badges are earned from these
+export type GameEvent =
+  | { type: 'levelCompleted'; levelId: number; livesLeft: number; averageReactionMs: number | null }
+  | { type: 'levelFailed'; levelId: number }
+  | { type: 'dailyPlayed' };
+
+export interface AchievementDefinition {
+  id: AchievementId;
+  icon: string;
+  name: UiStringKey;
+  description: UiStringKey;
+  params?: Record<string, number>; // filled into the description
+}
+
+export interface AchievementRecord {
+  unlocked: Partial<Record<AchievementId, number>>; // ms timestamp each badge was earned at
+  flawlessLevels: number; // levels completed in a row without losing a life
+}
@@ -1,22 +1,189 @@
+// How the grid fills up around the spoken (forbidden) color
+export interface DecoyRule {
+  forbiddenTiles: number; // tiles showing the forbidden color
+  safeColors: number; // distinct other colors shown on the remaining tiles
+  reshuffleMs: number | null; // reshuffle the grid this often while the same color is being asked, null to keep it still
+}
+
+// Go/No-Go: some prompts ask for no tap at all, and are passed by letting their deadline run out
+export interface NoGoRule {
+  chance: number; // share of prompts, 0 to 1, that are no-go
+}
+
+// What the spoken color asks for: the usual rule is to avoid it, the switched one to pick it
+export type PromptRule = 'avoid' | 'pick';
+
+// How a rule change is signalled: spoken when it happens, or by the background while the pick rule holds
+export type RuleCue = 'voice' | 'background';
+
+// Rule-switching levels flip between avoid and pick mid-level, so the player has to track the active rule
+export interface RuleSwitch {
+  startRule: PromptRule;
+  switchChance: number; // chance, 0 to 1, of each prompt after the first changing rule
+  cue: RuleCue;
+}
+
+// Extra points for answering within withinMs of the color being asked
+export interface ReactionTier {
+  withinMs: number;
+  bonus: number;
+}
+
+// Consecutive correct answers within fastWithinMs build a combo that multiplies what each answer earns
+export interface ComboRule {
+  fastWithinMs: number;
+  multiplierStep: number; // added to the x1 multiplier per answer in the combo
+  maxMultiplier: number;
+}
+
+export interface ScoringRules {
+  pointsPerColor: number;
+  timeBonusPerSecond: number; // per whole second left on the level clock
+  wrongColorPenalty: number;
+  reactionTiers: ReactionTier[]; // fastest first, an answer earns the first tier it fits in
+  combo: ComboRule | null;
+  perfectBonus: number; // level completed with every answer inside the combo window
+  commissionPenalty: number | null; // tapping on a no-go prompt; null to count it as a wrong color
+  omissionPenalty: number | null; // no tap before a color's deadline; null to count it as a wrong color
+}
+
+// How the forbidden color is given: spoken, shown as a word, or shown as a word in a conflicting ink
+export type PromptMode = 'speech' | 'visual' | 'stroop';
+
 export interface GameLevel {
   id: number;
   name: string;
-  timeLimit: number; // in seconds
-  totalColors: number; // always 10
-  availableColors: number; // 2 or 4
-  hasDuplicates: boolean; // for levels 5-6
   description: string;
+  timeLimit: number; // seconds for the whole level, 0 when only each color is timed
+  promptTimeLimit: number | null; // seconds to answer each color, null when only the level is timed
+  sequenceLength: number; // colors spoken per level
+  colorPool: ColorName[]; // colors that can be spoken or shown
+  gridSize: number; // number of tiles on screen
+  decoys: DecoyRule | null; // null: each pool color is shown once
+  noGo: NoGoRule | null; // needs promptTimeLimit, which is what a no-go prompt waits out
+  ruleSwitch: RuleSwitch | null; // null: every prompt uses the avoid rule
+  avoidRepeatedLayout: boolean; // never show the same arrangement twice in a row
+  promptMode: PromptMode | null; // null: whichever mode the player picked for the session
+  unlockRequirement: number | null; // id of the level to complete first, null if unlocked from the start
+  scoring: Partial<ScoringRules> | null; // overrides on top of DEFAULT_SCORING, null to use it as is
+}
+
+// Settings for endless mode once the streak reaches fromStreak
+export interface EndlessStage {
+  fromStreak: number;
+  colorPool: ColorName[];
+  gridSize: number;
+  decoys: DecoyRule | null;
+}
+
+export interface EndlessConfig {
+  startPromptTime: number; // seconds to answer the first prompt
+  minPromptTime: number; // the prompt time never drops below this
+  promptTimeStep: number; // seconds taken off per color in the current streak
+  stages: EndlessStage[]; // sorted by fromStreak, the first one starts at 0
+}
+
+// One grid setting adaptive mode can move to, easiest first in AdaptiveConfig.stages
+export type AdaptiveStage = Omit<EndlessStage, 'fromStreak'>;
+
+export interface AdaptiveConfig {
+  sequenceLength: number; // colors per run
+  targetSuccessRate: number; // share of correct answers the difficulty is tuned towards
+  tolerance: number; // success rates this close to the target leave the difficulty alone
+  windowSize: number; // answers the success rate is judged over
+  reactionSmoothing: number; // weight of the newest reaction in the moving average
+  startPromptTime: number; // seconds to answer each color for a new player
+  minPromptTime: number;
+  maxPromptTime: number;
+  promptTimeStep: number; // seconds added or taken off per adjustment
+  reactionHeadroom: number; // the prompt time never drops below the average reaction times this
+  stages: AdaptiveStage[];
+}
+
+// Rolling picture of how the player is doing, carried from one adaptive run to the next
+export interface PlayerModel {
+  recentResults: boolean[]; // latest answers at the current difficulty, oldest first
+  averageReactionMs: number | null; // moving average over correct answers
+  promptTime: number; // seconds to answer each color
+  stageIndex: number; // grid size and decoys, see AdaptiveConfig.stages
+}
+
+export type GameMode = 'levels' | 'endless' | 'daily' | 'practice' | 'adaptive';
+
+// How one spoken color was answered
+export interface PromptRecord {
+  spokenColor: ColorName;
+  grid: ColorName[]; // tiles on screen at the time of the answer
+  isNoGo: boolean; // the right answer was to tap nothing
+  rule: PromptRule;
+  tappedIndex: number | null; // null when nothing was tapped before the deadline
+  tappedColor: ColorName | null;
+  reactionMs: number | null; // from the color being asked to the tap
+  isCorrect: boolean;
+}
+
+export type GameStatus = 'homepage' | 'waiting' | 'playing' | 'paused' | 'completed' | 'failed' | 'levelSummary';
+
+export type ScoreComponentKind =
+  | 'colors'
+  | 'reaction'
+  | 'combo'
+  | 'time'
+  | 'perfect'
+  | 'mistakes'
+  | 'commission'
+  | 'omission';
+
+// One line of a summary breakdown: what was counted and the points it came to (negative for penalties)
+export interface ScoreComponent {
+  kind: ScoreComponentKind;
+  count: number; // colors, quick answers, longest combo, seconds left or errors
+  points: number;
+}
+
+export interface LevelSummary {
+  components: ScoreComponent[]; // only the ones the level's rules produced
+  total: number;
 }
 
 export interface GameState {
+  mode: GameMode;
   currentLevel: number;
   score: number;
+  lives: number;
   timeRemaining: number;
   currentColorIndex: number;
-  colorsToClick: string[];
-  availableColors: string[];
-  gameStatus: 'waiting' | 'playing' | 'paused' | 'completed' | 'failed';
+  colorsToClick: ColorName[];
+  noGoPrompts: boolean[]; // alongside colorsToClick, true where that prompt means tap nothing
+  promptRules: PromptRule[]; // alongside colorsToClick, the rule each prompt is answered by
+  availableColors: ColorName[];
+  visualColors: ColorName[]; // Colors displayed on screen, may differ from availableColors (Level 5 mechanic)
+  preferredPromptMode: PromptMode; // the player's choice for this session
+  promptMode: PromptMode; // mode of the level being played
+  promptInk: ColorName | null; // ink of the prompt word in stroop mode
+  gameStatus: GameStatus;
   isGameActive: boolean;
+  levelStartTime: number; // ms timestamp
+  levelTimeLimit: number; // in seconds, 0 when the level has no overall limit
+  promptStartTime: number; // ms timestamp the current color was asked
+  promptTimeLimit: number; // in seconds, 0 when colors have no individual deadline
+  levelDurationMs: number; // how long the last finished level took
+  gridShownTime: number; // ms timestamp of the last grid refresh, drives mid-prompt reshuffles
+  pausedAt: number; // ms timestamp the game was paused at, 0 when not paused
+  levelScore: number;
+  levelSummary: LevelSummary;
+  unlockedLevels: number[];
+  streak: number; // correct answers in a row
+  combo: number; // quick correct answers in a row, drives the combo multiplier
+  bestStreak: number;
+  correctCount: number;
+  mistakeCount: number;
+  promptLog: PromptRecord[]; // every answered color of the current level or endless run
+  seed: number; // seed the current level was generated from, replaying it gives the same run
+  rngState: number; // generator state after the last draw, used for the next grid
+  challengeDate: string; // YYYY-MM-DD of the daily challenge being played, empty otherwise
+  practiceTimed: boolean; // practice keeps the level's time limit; untimed practice has no clock at all
+  playerModel: PlayerModel; // difficulty of the adaptive run being played, updated after every answer
 }
 
 export interface ColorButton {
@@ -31,6 +198,12 @@ export const GAME_COLORS = {
   green: '#7ED321',
   yellow: '#F5A623',
   red: '#D0021B',
+  purple: '#8E44AD',
+  orange: '#FF6D00',
+  pink: '#FF69B4',
+  cyan: '#00BCD4',
+  black: '#111111',
+  white: '#FFFFFF',
 } as const;
 
 export type ColorName = keyof typeof GAME_COLORS;
@@ -0,0 +1,14 @@
+import { ColorName } from './GameTypes';
+import { EN_STRINGS } from '../data/Locales';
+
+export type LocaleCode = 'en' | 'fr' | 'es' | 'de';
+
+export type UiStringKey = keyof typeof EN_STRINGS;
+
+export interface Locale {
+  code: LocaleCode;
+  name: string; // shown in the language picker, in the language itself
+  speechLanguage: string; // expo-speech / BCP 47 language code
+  colors: Record<ColorName, string>; // spoken and displayed color names
+  strings: Record<UiStringKey, string>; // UI text, {name} placeholders are filled in by the translator
+}
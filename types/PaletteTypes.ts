@@ -0,0 +1,13 @@
+import { ColorName } from './GameTypes';
+import { UiStringKey } from './LocaleTypes';
+
+export type PaletteId = 'classic' | 'deuteranopia' | 'protanopia' | 'tritanopia' | 'highContrast';
+
+export type GlyphShape = 'circle' | 'triangle' | 'square' | 'star' | 'diamond' | 'hexagon' | 'heart' | 'ring' | 'cross' | 'bars';
+
+export interface Palette {
+  id: PaletteId;
+  labelKey: UiStringKey;
+  colors: Record<ColorName, string>; // hex per color, the game logic only ever sees ColorName
+  borderColor: string; // tile outline
+}
@@ -0,0 +1,14 @@
+import { ColorName } from './GameTypes';
+
+export interface PlayerProfile {
+  id: string;
+  name: string; // empty until the player picks one, shown as "Player N"
+  avatarColor: ColorName;
+  createdAt: number; // ms timestamp
+}
+
+export interface ProfileList {
+  version: number; // schema version, see storage/ProfileStorage.ts
+  profiles: PlayerProfile[];
+  activeId: string;
+}
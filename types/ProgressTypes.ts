@@ -0,0 +1,93 @@
+import { AchievementRecord } from './AchievementTypes';
+import { PlayerModel } from './GameTypes';
+
+export interface LevelRecord {
+  bestScore: number;
+  bestTimeMs: number | null; // fastest completion, null until the level is beaten
+}
+
+export interface LifetimeStats {
+  levelsPlayed: number;
+  levelsCompleted: number;
+  levelsFailed: number;
+  gamesOver: number;
+  totalScore: number; // sum of every completed level score
+  bestRunScore: number;
+  totalPlayTimeMs: number;
+}
+
+export interface EndlessRecord {
+  bestScore: number;
+  bestStreak: number;
+  runsPlayed: number;
+}
+
+export interface AdaptiveRecord {
+  bestScore: number;
+  runsPlayed: number;
+  model: PlayerModel; // where the next run picks up
+}
+
+export interface DailyResult {
+  date: string; // YYYY-MM-DD the challenge belonged to
+  score: number;
+  durationMs: number;
+  marks: string; // one emoji per prompt, see engine/Daily.ts
+}
+
+export interface DailyRecord {
+  lastPlayedDate: string | null;
+  startedDate: string | null; // saved as a run begins, so closing the app mid-run does not earn a retry
+  streak: number; // consecutive days played, ending at lastPlayedDate
+  bestStreak: number;
+  bestScore: number;
+  daysPlayed: number;
+  lastResult: DailyResult | null; // kept so the result can be shared again later that day
+}
+
+// Practice sessions per level, separate from the ranked level records
+export interface PracticeRecord {
+  sessions: number;
+  bestAccuracy: number; // percent of prompts answered right, over sessions that reached the end
+  bestTimeMs: number | null; // fastest session with no mistakes
+}
+
+export interface PlayerProgress {
+  version: number; // schema version, see storage/ProgressStorage.ts
+  unlockedLevels: number[];
+  levelRecords: Record<number, LevelRecord>;
+  endless: EndlessRecord; // kept apart from level records and lifetime stats
+  daily: DailyRecord;
+  practice: Record<number, PracticeRecord>;
+  adaptive: AdaptiveRecord;
+  achievements: AchievementRecord;
+  stats: LifetimeStats;
+}
+
+export interface LevelResult {
+  levelId: number;
+  completed: boolean;
+  levelScore: number;
+  runScore: number; // total score of the run after this level
+  durationMs: number;
+  isGameOver: boolean;
+  unlockedLevels: number[];
+}
+
+export interface EndlessResult {
+  score: number;
+  bestStreak: number;
+}
+
+export interface AdaptiveResult {
+  score: number;
+  model: PlayerModel; // as tuned by the end of the run
+}
+
+export interface PracticeResult {
+  levelId: number;
+  correctCount: number;
+  mistakeCount: number;
+  promptCount: number; // prompts in the level, the session may have ended before all were answered
+  durationMs: number;
+}
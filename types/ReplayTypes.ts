@@ -0,0 +1,41 @@
+import { GameLevel, GameMode, GameStatus, PlayerModel, PromptMode } from './GameTypes';
+
+// Player inputs and timer events, timestamped in ms from the start of the level
+export type ReplayInput =
+  | { at: number; type: 'CLICK_COLOR'; tileIndex: number }
+  | { at: number; type: 'PROMPT_SHOWN'; index: number }
+  | { at: number; type: 'TICK' }
+  | { at: number; type: 'PAUSE' }
+  | { at: number; type: 'RESUME' }
+  | { at: number; type: 'GO_HOME' };
+
+export interface ReplayOutcome {
+  gameStatus: GameStatus;
+  score: number;
+  promptsAnswered: number;
+}
+
+// Everything needed to re-run one level through gameReducer; plain JSON so it can be exported
+export interface Replay {
+  version: number; // format version, see engine/Replay.ts
+  recordedAt: string; // ISO timestamp
+  mode: GameMode;
+  levelId: number;
+  level: GameLevel; // spec as it was when recorded, to spot levels that changed since
+  seed: number;
+  challengeDate: string;
+  practiceTimed: boolean;
+  playerModel: PlayerModel | null; // difficulty an adaptive run started at, null for other modes
+  promptMode: PromptMode;
+  startScore: number; // run score and lives going in, they decide whether a mistake is game over
+  startLives: number;
+  inputs: ReplayInput[];
+  outcome: ReplayOutcome | null; // null while still recording
+}
+
+// Game state after each input, for stepping through a replay
+export interface ReplayFrame<State> {
+  at: number;
+  input: ReplayInput | null; // null for the starting frame
+  state: State;
+}
@@ -0,0 +1,11 @@
+import { LocaleCode } from './LocaleTypes';
+import { PaletteId } from './PaletteTypes';
+
+export interface PlayerSettings {
+  version: number; // schema version, see storage/SettingsStorage.ts
+  locale: LocaleCode;
+  palette: PaletteId;
+  showPatterns: boolean; // draw a shape on each tile as well as its color
+  volume: number; // 0 to 1, for effects and spoken colors alike
+  isMuted: boolean; // silences the sound effects; spoken colors and cues are part of the game and keep playing
+}
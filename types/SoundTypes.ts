@@ -0,0 +1 @@
+export type SoundEffect = 'tap' | 'correct' | 'wrong' | 'levelComplete' | 'tick' | 'stop';
@@ -0,0 +1,39 @@
+import { ColorName, PromptMode } from './GameTypes';
+
+// Hot seat: players take turns on the same sequence. Split screen: both play at once, one half each.
+export type VersusLayout = 'hotSeat' | 'splitScreen';
+
+export type VersusStatus = 'setup' | 'turnIntro' | 'playing' | 'paused' | 'result';
+
+export interface VersusPlayer {
+  score: number;
+  lives: number;
+  correctCount: number;
+  mistakeCount: number; // wrong taps and missed prompts
+  reactionTotalMs: number; // summed over correct taps, for the average
+}
+
+export interface VersusState {
+  layout: VersusLayout;
+  levelId: number; // GAME_LEVELS entry the match is played on
+  promptMode: PromptMode;
+  status: VersusStatus;
+  isActive: boolean;
+  round: number; // hot seat: 1-based round, both players play once per round
+  activePlayer: number; // hot seat: index of the player whose turn it is
+  players: VersusPlayer[];
+  answers: (number | null)[]; // split screen: tile each player tapped for the current prompt, -1 when missed
+  colorsToClick: ColorName[];
+  currentColorIndex: number;
+  visualColors: ColorName[];
+  promptInk: ColorName | null;
+  timeRemaining: number;
+  turnStartTime: number; // ms timestamp
+  turnTimeLimit: number; // in seconds, 0 when turns have no overall limit
+  promptStartTime: number; // ms timestamp the current color was asked
+  promptTimeLimit: number; // in seconds, 0 when colors have no individual deadline
+  gridShownTime: number;
+  pausedAt: number;
+  roundSeed: number; // both hot seat turns of a round are dealt from this seed
+  rngState: number;
+}